@@ -1,6 +1,19 @@
-import { DEFAULTS } from "./constants.js";
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+	CRAWL_SCOPES,
+	CRAWL_STRATEGIES,
+	DEDUPE_MODES,
+	DEFAULTS,
+	FETCHER_TYPES,
+	SITEMAP_MODES,
+	TRAILING_SLASH_MODES,
+} from "./constants.js";
+import { parseCookieJar } from "./crawler/credentials.js";
+import { maskProxyUrl } from "./crawler/proxy.js";
 import { ConfigError } from "./errors.js";
-import type { CrawlConfig } from "./types.js";
+import type { CrawlConfig, RequestCookie, UrlMatcher, WaitCondition } from "./types.js";
+import { compileGlob } from "./utils/glob.js";
 import { generateSiteName } from "./utils/site-name.js";
 
 /**
@@ -12,23 +25,27 @@ export interface ParseConfigResult {
 	warnings: string[];
 }
 
+/** パターン長の上限（過度に複雑なパターンを拒否） */
+const MAX_PATTERN_LENGTH = 200;
+
+/** --proxy で使えるプロトコル（SOCKS はブラウザのみ対応） */
+const PROXY_PROTOCOLS = ["http:", "https:", "socks5:"];
+
 /**
- * Parse a regex pattern string into a RegExp object
- * @param pattern - The regex pattern string
- * @param name - The name of the pattern (for error messages)
- * @returns RegExp object or null if pattern is undefined
+ * Parse a regex pattern string into a URL matcher
+ * @param pattern - The regex pattern string (matched against the full URL)
+ * @param name - The name of the option (for error messages)
+ * @param rule - How the rule is shown in debug logs
+ * @returns Compiled matcher
  * @throws ConfigError if the pattern is invalid
  */
-function parsePattern(pattern: string | undefined, name: string): RegExp | null {
-	if (!pattern) return null;
-
-	// パターン長の上限（過度に複雑なパターンを拒否）
-	if (pattern.length > 200) {
-		throw new ConfigError(`${name} pattern too long (max 200 chars)`, name);
+function parsePattern(pattern: string, name: string, rule: string): UrlMatcher {
+	if (pattern.length > MAX_PATTERN_LENGTH) {
+		throw new ConfigError(`${name} pattern too long (max ${MAX_PATTERN_LENGTH} chars)`, name);
 	}
 
 	try {
-		const regex = new RegExp(String(pattern));
+		const regex = new RegExp(pattern);
 
 		// 簡易的なReDoSチェック: ネストした量指定子を拒否
 		// パターン: 量指定子 + 閉じ括弧 + 量指定子
@@ -37,24 +54,169 @@ function parsePattern(pattern: string | undefined, name: string): RegExp | null
 			throw new ConfigError(`${name} pattern may cause catastrophic backtracking`, name);
 		}
 
-		return regex;
+		return { type: "regex", pattern, regex, rule };
 	} catch (e) {
 		const errorMessage = e instanceof Error ? e.message : String(e);
 		throw new ConfigError(`Invalid ${name} pattern: ${errorMessage}`, name);
 	}
 }
 
-export function parseConfig(
+/**
+ * Parse a path glob into a URL matcher
+ * @param glob - The path glob (matched against the URL path)
+ * @param name - The name of the option (for error messages)
+ * @param rule - How the rule is shown in debug logs
+ * @returns Compiled matcher
+ * @throws ConfigError if the glob is too long
+ */
+function parseGlob(glob: string, name: string, rule: string): UrlMatcher {
+	if (glob.length > MAX_PATTERN_LENGTH) {
+		throw new ConfigError(`${name} pattern too long (max ${MAX_PATTERN_LENGTH} chars)`, name);
+	}
+	return { type: "glob", pattern: glob, segments: compileGlob(glob), rule };
+}
+
+/**
+ * Read include/exclude rules from a filter file
+ * Each line is `include|exclude|include-glob|exclude-glob <pattern>`.
+ * Blank lines and lines starting with `#` are ignored
+ * @param path - Path to the filter file
+ * @returns Compiled include and exclude matchers in file order
+ * @throws ConfigError if the file cannot be read or a rule is invalid
+ */
+function readFilterFile(path: string): { include: UrlMatcher[]; exclude: UrlMatcher[] } {
+	let content: string;
+	try {
+		content = readFileSync(path, "utf-8");
+	} catch (e) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		throw new ConfigError(`Cannot read filter file: ${errorMessage}`, "filterFile");
+	}
+
+	const rules = { include: [] as UrlMatcher[], exclude: [] as UrlMatcher[] };
+	for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+		const line = rawLine.trim();
+		if (line === "" || line.startsWith("#")) continue;
+
+		const location = `${path}:${index + 1}`;
+		const match = /^(include|exclude)(-glob)?\s+(.+)$/.exec(line);
+		if (!match) {
+			throw new ConfigError(
+				`Invalid filter rule at ${location}: ${line} (expected include|exclude|include-glob|exclude-glob <pattern>)`,
+				"filterFile",
+			);
+		}
+
+		const [, kind, glob, pattern] = match;
+		const rule = `${location} ${line}`;
+		try {
+			rules[kind as "include" | "exclude"].push(
+				glob ? parseGlob(pattern, `${kind}-glob`, rule) : parsePattern(pattern, kind, rule),
+			);
+		} catch (e) {
+			if (e instanceof ConfigError) {
+				throw new ConfigError(`${e.message} (${location})`, "filterFile");
+			}
+			throw e;
+		}
+	}
+	return rules;
+}
+
+/**
+ * Compile the include or exclude rules from the options and the filter file
+ * @param kind - Which rules to compile
+ * @returns Matchers in order: regexes, globs, then filter file rules
+ */
+function parseMatchers(
 	options: Record<string, unknown>,
-	startUrl: string,
-	version: string,
-): ParseConfigResult {
-	// Validate startUrl format
+	kind: "include" | "exclude",
+	fileRules: UrlMatcher[],
+): UrlMatcher[] {
+	const globOption = kind === "include" ? options.includeGlob : options.excludeGlob;
+	return [
+		...parseList(options[kind]).map((pattern) =>
+			parsePattern(pattern, kind, `--${kind} ${pattern}`),
+		),
+		...parseList(globOption).map((glob) =>
+			parseGlob(glob, `${kind}Glob`, `--${kind}-glob ${glob}`),
+		),
+		...fileRules,
+	];
+}
+
+/**
+ * Parse an option that must be one of a fixed set of choices
+ * @param value - The raw option value
+ * @param choices - The allowed values
+ * @param defaultValue - Value used when the option is not specified
+ * @param name - The name of the option (for error messages)
+ * @returns The validated choice
+ * @throws ConfigError if the value is not one of the choices
+ */
+function parseChoice<T extends string>(
+	value: unknown,
+	choices: readonly T[],
+	defaultValue: T,
+	name: string,
+): T {
+	if (value === undefined || value === null || value === "") return defaultValue;
+
+	const choice = String(value);
+	if (!(choices as readonly string[]).includes(choice)) {
+		throw new ConfigError(
+			`Invalid ${name}: ${choice} (expected one of: ${choices.join(", ")})`,
+			name,
+		);
+	}
+	return choice as T;
+}
+
+/**
+ * Parse a repeatable option into a list of non-empty strings
+ * @param value - The raw option value (string or array of strings)
+ * @returns The list of values (empty if not specified)
+ */
+function parseList(value: unknown): string[] {
+	const values = Array.isArray(value)
+		? value
+		: value === undefined || value === null
+			? []
+			: [value];
+	return values.map((item) => String(item).trim()).filter((item) => item !== "");
+}
+
+/**
+ * Parse --allow-host values into lowercase host patterns
+ * A leading `*.` matches any subdomain (but not the domain itself)
+ * @param value - The raw option value (string or array of strings)
+ * @returns The allowed host patterns (duplicates removed)
+ * @throws ConfigError if a value is not a host name
+ */
+function parseAllowedHosts(value: unknown): string[] {
+	const hosts = parseList(value).map((host) => host.toLowerCase());
+	for (const host of hosts) {
+		if (!/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host)) {
+			throw new ConfigError(
+				`Invalid allow-host: ${host} (expected a host name such as docs.example.com or *.example.com)`,
+				"allowHost",
+			);
+		}
+	}
+	return [...new Set(hosts)];
+}
+
+/**
+ * Validate a start URL
+ * @param url - The URL to validate
+ * @throws ConfigError if the URL is invalid or not http/https
+ */
+function validateStartUrl(url: string): void {
 	let parsed: URL;
 	try {
-		parsed = new URL(startUrl);
+		parsed = new URL(url);
 	} catch {
-		throw new ConfigError(`Invalid URL: ${startUrl}`, "startUrl");
+		throw new ConfigError(`Invalid URL: ${url}`, "startUrl");
 	}
 
 	// Validate URL scheme (only http/https allowed)
@@ -64,6 +226,350 @@ export function parseConfig(
 			"startUrl",
 		);
 	}
+}
+
+/**
+ * Read seed URLs from a file (one URL per line)
+ * Blank lines and lines starting with `#` are ignored
+ * @param path - Path to the seed list file
+ * @returns Seed URLs in file order
+ * @throws ConfigError if the file cannot be read
+ */
+function readSeedFile(path: string): string[] {
+	let content: string;
+	try {
+		content = readFileSync(path, "utf-8");
+	} catch (e) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		throw new ConfigError(`Cannot read seeds file: ${errorMessage}`, "seeds");
+	}
+	return content
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+/**
+ * Expand `${NAME}` references to environment variables
+ * Lets secrets stay out of shell history and the process list (quote the value in single quotes)
+ * @param value - The raw option value
+ * @param name - The name of the option (for error messages)
+ * @returns The value with references replaced
+ * @throws ConfigError if a referenced variable is not set
+ */
+function expandEnv(value: string, name: string): string {
+	return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable: string) => {
+		const resolved = process.env[variable];
+		if (resolved === undefined) {
+			throw new ConfigError(`Environment variable ${variable} is not set (--${name})`, name);
+		}
+		return resolved;
+	});
+}
+
+/**
+ * Parse --header values ("Name: value") and --auth into request headers
+ * Error messages include only the header name, never the value
+ * @param value - The raw --header option value (string or array of strings)
+ * @param auth - The raw --auth option value ("basic:user:pass")
+ * @returns Header name → value
+ * @throws ConfigError if a header or the auth spec is malformed
+ */
+function parseHeaders(value: unknown, auth: unknown): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const header of parseList(value)) {
+		const separator = header.indexOf(":");
+		const name = separator === -1 ? "" : header.slice(0, separator).trim();
+		if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+			throw new ConfigError('Invalid header (expected "Name: value")', "header");
+		}
+		headers[name] = expandEnv(header.slice(separator + 1).trim(), "header");
+	}
+
+	if (auth !== undefined && auth !== null && auth !== "") {
+		const [scheme, ...credentials] = String(auth).split(":");
+		if (scheme.toLowerCase() !== "basic" || credentials.length < 2) {
+			throw new ConfigError("Invalid auth (expected basic:<user>:<password>)", "auth");
+		}
+		const user = expandEnv(credentials[0], "auth");
+		const password = expandEnv(credentials.slice(1).join(":"), "auth");
+		headers.Authorization = `Basic ${Buffer.from(`${user}:${password}`).toString("base64")}`;
+	}
+	return headers;
+}
+
+/**
+ * Parse --cookie values ("name=value", several separated by `;`) and --cookies-file
+ * --cookie values are sent only to the hosts of the seed URLs
+ * @param value - The raw --cookie option value (string or array of strings)
+ * @param file - Path to a Netscape or JSON cookie jar
+ * @param seeds - The seed URLs
+ * @returns The cookies to send
+ * @throws ConfigError if a cookie is malformed or the file cannot be read
+ */
+function parseCookies(value: unknown, file: unknown, seeds: string[]): RequestCookie[] {
+	const cookies: RequestCookie[] = [];
+	if (file) {
+		let content: string;
+		try {
+			content = readFileSync(String(file), "utf-8");
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			throw new ConfigError(`Cannot read cookies file: ${errorMessage}`, "cookiesFile");
+		}
+		try {
+			cookies.push(...parseCookieJar(content));
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			throw new ConfigError(`Invalid cookies file: ${errorMessage}`, "cookiesFile");
+		}
+	}
+
+	const hosts = [...new Set(seeds.map((seed) => new URL(seed).hostname))];
+	for (const pair of parseList(value).flatMap((cookie) => cookie.split(";"))) {
+		const separator = pair.indexOf("=");
+		const name = separator === -1 ? "" : pair.slice(0, separator).trim();
+		if (name === "") {
+			if (pair.trim() === "") continue;
+			throw new ConfigError("Invalid cookie (expected name=value)", "cookie");
+		}
+		const cookieValue = expandEnv(pair.slice(separator + 1).trim(), "cookie");
+		for (const domain of hosts) {
+			cookies.push({ name, value: cookieValue, domain, path: "/", secure: false });
+		}
+	}
+	return cookies;
+}
+
+/**
+ * Parse --wait-for ("selector:<css>", "networkidle" or "text:<string>")
+ * @param value - The raw --wait-for option value
+ * @returns The wait condition, or null if not specified
+ * @throws ConfigError if the value is not one of the supported forms
+ */
+function parseWaitFor(value: unknown): WaitCondition | null {
+	if (value === undefined || value === null || value === "") {
+		return null;
+	}
+	const spec = String(value);
+	if (spec === "networkidle") {
+		return { type: "networkidle" };
+	}
+	const separator = spec.indexOf(":");
+	const kind = spec.slice(0, separator);
+	const argument = spec.slice(separator + 1).trim();
+	if (separator !== -1 && argument !== "") {
+		if (kind === "selector") {
+			return { type: "selector", selector: argument };
+		}
+		if (kind === "text") {
+			return { type: "text", text: argument };
+		}
+	}
+	throw new ConfigError(
+		`Invalid --wait-for: ${spec} (expected selector:<css>, networkidle or text:<string>)`,
+		"waitFor",
+	);
+}
+
+/**
+ * Parse --proxy, falling back to HTTPS_PROXY / HTTP_PROXY per URL scheme, and NO_PROXY
+ * --proxy is used for both http and https URLs. Without it, https URLs use HTTPS_PROXY and
+ * http URLs use HTTP_PROXY (like curl). Error messages mask the proxy credentials
+ * @param value - The raw --proxy option value (env vars expanded)
+ * @param fetcher - The selected fetcher (SOCKS proxies need playwright)
+ * @param warnings - Receives warnings for SOCKS proxies from the environment that are ignored
+ * @param env - The environment variables
+ * @returns The proxy settings
+ * @throws ConfigError if a proxy URL is invalid, or --proxy's protocol is not supported by the fetcher
+ */
+function parseProxy(
+	value: unknown,
+	fetcher: string,
+	warnings: string[],
+	env: NodeJS.ProcessEnv = process.env,
+): Pick<CrawlConfig, "httpProxy" | "httpsProxy" | "noProxy"> {
+	const noProxy = (env.NO_PROXY ?? env.no_proxy ?? "")
+		.split(",")
+		.map((entry) => entry.trim().toLowerCase())
+		.filter(Boolean);
+	if (value) {
+		const proxy = parseProxyUrl(expandEnv(String(value), "proxy"), fetcher, null, warnings);
+		return { httpProxy: proxy, httpsProxy: proxy, noProxy };
+	}
+	return {
+		httpProxy: parseProxyUrl(
+			env.HTTP_PROXY ?? env.http_proxy ?? "",
+			fetcher,
+			"HTTP_PROXY",
+			warnings,
+		),
+		httpsProxy: parseProxyUrl(
+			env.HTTPS_PROXY ?? env.https_proxy ?? "",
+			fetcher,
+			"HTTPS_PROXY",
+			warnings,
+		),
+		noProxy,
+	};
+}
+
+/**
+ * Validate a proxy URL from --proxy or an environment variable
+ * A SOCKS proxy from the environment is not an error: it is ignored with a warning where it cannot be used
+ * @param raw - The proxy URL (the scheme defaults to http://)
+ * @param fetcher - The selected fetcher (SOCKS proxies need playwright)
+ * @param envName - The environment variable the value came from (null for --proxy)
+ * @param warnings - Receives warnings for ignored SOCKS proxies
+ * @returns The proxy URL, or null for a direct connection
+ * @throws ConfigError if the URL is invalid, or --proxy's protocol is not supported by the fetcher
+ */
+function parseProxyUrl(
+	raw: string,
+	fetcher: string,
+	envName: string | null,
+	warnings: string[],
+): string | null {
+	if (raw.trim() === "") {
+		return null;
+	}
+	// 環境変数では "proxy.example.com:8080" のようにスキームを省略することが多い
+	const proxy = raw.includes("://") ? raw.trim() : `http://${raw.trim()}`;
+	let url: URL;
+	try {
+		url = new URL(proxy);
+	} catch {
+		throw new ConfigError(`Invalid proxy URL: ${maskProxyUrl(proxy)}`, "proxy");
+	}
+	if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+		throw new ConfigError(
+			`Unsupported proxy protocol: ${url.protocol} (expected http, https or socks5)`,
+			"proxy",
+		);
+	}
+	if (url.protocol !== "socks5:") {
+		return proxy;
+	}
+	if (url.username || url.password) {
+		if (envName === null) {
+			throw new ConfigError("SOCKS proxy authentication is not supported", "proxy");
+		}
+		warnings.push(
+			`${envName} is a SOCKS proxy with credentials, which is not supported; ignoring it.`,
+		);
+		return null;
+	}
+	if (fetcher === "playwright") {
+		return proxy;
+	}
+	if (envName === null) {
+		throw new ConfigError("SOCKS proxies require --fetcher playwright", "proxy");
+	}
+	// auto では playwright-cli での再取得にだけ使う（HTTP での取得は resolveProxy が SOCKS を除外する）
+	warnings.push(
+		fetcher === "auto"
+			? `${envName} is a SOCKS proxy, which --fetcher auto uses only for playwright-cli; HTTP requests connect directly.`
+			: `${envName} is a SOCKS proxy, which --fetcher http does not support; ignoring it.`,
+	);
+	return fetcher === "auto" ? proxy : null;
+}
+
+/**
+ * Parse --user-agent and --robots-agent
+ * The robots agent is a product token (RFC 9309: letters, "_" and "-") and does not follow --user-agent
+ * @param userAgent - The raw --user-agent option value
+ * @param robotsAgent - The raw --robots-agent option value
+ * @returns The agent settings
+ * @throws ConfigError if the user agent contains a line break or the robots agent is not a valid token
+ */
+function parseAgents(
+	userAgent: unknown,
+	robotsAgent: unknown,
+): Pick<CrawlConfig, "userAgent" | "robotsAgent"> {
+	const agent = userAgent ? String(userAgent).trim() : "";
+	if (/[\r\n]/.test(agent)) {
+		throw new ConfigError("User agent must not contain line breaks", "userAgent");
+	}
+	const token = robotsAgent ? String(robotsAgent).trim() : DEFAULTS.ROBOTS_AGENT;
+	if (!/^[A-Za-z_-]+$/.test(token)) {
+		throw new ConfigError(
+			`Invalid robots agent: ${token} (expected letters, "_" and "-" only)`,
+			"robotsAgent",
+		);
+	}
+	return { userAgent: agent || null, robotsAgent: token };
+}
+
+/**
+ * Parse --login-script, --login-url and --storage-state
+ * Paths are resolved to absolute paths because playwright-cli runs in the output directory
+ * @param options - The raw CLI options
+ * @param fetcher - The selected fetcher (scripted login needs playwright)
+ * @returns The login settings
+ * @throws ConfigError if a file is missing, the login URL is invalid, or the fetcher is not playwright
+ */
+function parseLogin(
+	options: Record<string, unknown>,
+	fetcher: string,
+): Pick<CrawlConfig, "loginScript" | "loginUrl" | "storageState"> {
+	const loginScript = options.loginScript ? resolve(String(options.loginScript)) : null;
+	const storageState = options.storageState ? resolve(String(options.storageState)) : null;
+	const loginUrl = options.loginUrl ? String(options.loginUrl) : null;
+
+	if (loginUrl !== null) {
+		let protocol: string;
+		try {
+			protocol = new URL(loginUrl).protocol;
+		} catch {
+			throw new ConfigError(`Invalid login URL: ${loginUrl}`, "loginUrl");
+		}
+		if (protocol !== "http:" && protocol !== "https:") {
+			throw new ConfigError(`Unsupported login URL protocol: ${protocol}`, "loginUrl");
+		}
+	}
+	if (loginScript !== null) {
+		if (!existsSync(loginScript)) {
+			throw new ConfigError(`Login script not found: ${loginScript}`, "loginScript");
+		}
+		if (loginUrl === null) {
+			throw new ConfigError("--login-script requires --login-url", "loginUrl");
+		}
+	} else if (storageState !== null && !existsSync(storageState)) {
+		throw new ConfigError(
+			`Storage state not found: ${storageState} (create it with --login-script)`,
+			"storageState",
+		);
+	}
+	if ((loginScript !== null || storageState !== null) && fetcher !== "playwright") {
+		throw new ConfigError(
+			"--login-script and --storage-state require --fetcher playwright",
+			"fetcher",
+		);
+	}
+	return { loginScript, loginUrl, storageState };
+}
+
+export function parseConfig(
+	options: Record<string, unknown>,
+	startUrls: string | string[],
+	version: string,
+): ParseConfigResult {
+	// 引数のURLと --seeds ファイルのURLを1つのクロールにまとめる（重複は除外）
+	const seeds = [
+		...new Set([
+			...(Array.isArray(startUrls) ? startUrls : [startUrls]),
+			...(options.seeds ? readSeedFile(String(options.seeds)) : []),
+		]),
+	];
+	if (seeds.length === 0) {
+		throw new ConfigError("No start URL specified (pass a URL or --seeds <file>)", "startUrl");
+	}
+	for (const seed of seeds) {
+		validateStartUrl(seed);
+	}
+
+	// 出力ディレクトリ名などは最初のシードを基準にする
+	const startUrl = seeds[0];
 
 	// Generate site-specific output directory if not specified
 	const defaultOutputDir = `${DEFAULTS.OUTPUT_DIR}/${generateSiteName(startUrl)}`;
@@ -83,14 +589,39 @@ export function parseConfig(
 			? null
 			: Math.min(DEFAULTS.MAX_PAGES_LIMIT, Math.floor(maxPagesValue));
 
+	const keepParams = parseList(options.keepParam);
+	const filterRules = options.filterFile
+		? readFilterFile(String(options.filterFile))
+		: { include: [], exclude: [] };
+
+	const fetcher = parseChoice(options.fetcher, FETCHER_TYPES, DEFAULTS.FETCHER, "fetcher");
+	const record = options.record ? String(options.record) : null;
+	const replay = options.replay ? String(options.replay) : null;
+	if (record && replay) {
+		throw new ConfigError("--record and --replay cannot be used together", "replay");
+	}
+	if (replay && !existsSync(replay)) {
+		throw new ConfigError(`Replay cache not found: ${replay}`, "replay");
+	}
+
+	// Collect warnings (output is delegated to the caller via CrawlLogger)
+	const warnings: string[] = [];
 	const config: CrawlConfig = {
 		startUrl,
+		seeds,
 		maxDepth,
 		maxPages,
 		outputDir,
-		sameDomain: options.sameDomain !== false,
-		includePattern: parsePattern(options.include as string | undefined, "include"),
-		excludePattern: parsePattern(options.exclude as string | undefined, "exclude"),
+		// --no-same-domain は --scope any の旧形式（--scope の指定を優先）
+		scope: parseChoice(
+			options.scope,
+			CRAWL_SCOPES,
+			options.sameDomain === false ? "any" : DEFAULTS.SCOPE,
+			"scope",
+		),
+		allowedHosts: parseAllowedHosts(options.allowHost),
+		includeMatchers: parseMatchers(options, "include", filterRules.include),
+		excludeMatchers: parseMatchers(options, "exclude", filterRules.exclude),
 		delay: Math.min(
 			DEFAULTS.MAX_DELAY_MS,
 			Math.max(0, Number.isNaN(Number(options.delay)) ? DEFAULTS.DELAY_MS : Number(options.delay)),
@@ -103,10 +634,36 @@ export function parseConfig(
 					Number.isNaN(Number(options.timeout)) ? DEFAULTS.TIMEOUT_SEC : Number(options.timeout),
 				),
 			) * 1000,
+		retries: Math.min(
+			DEFAULTS.MAX_RETRIES,
+			Math.max(
+				0,
+				Number.isNaN(Number(options.retries))
+					? DEFAULTS.RETRIES
+					: Math.floor(Number(options.retries)),
+			),
+		),
+		breakerThreshold: Math.max(
+			0,
+			Number.isNaN(Number(options.breakerThreshold))
+				? DEFAULTS.BREAKER_THRESHOLD
+				: Math.floor(Number(options.breakerThreshold)),
+		),
+		breakerCooldown:
+			Math.min(
+				DEFAULTS.MAX_BREAKER_COOLDOWN_SEC,
+				Math.max(
+					1,
+					Number.isNaN(Number(options.breakerCooldown))
+						? DEFAULTS.BREAKER_COOLDOWN_SEC
+						: Number(options.breakerCooldown),
+				),
+			) * 1000,
 		spaWait: Math.min(
 			DEFAULTS.MAX_SPA_WAIT_MS,
 			Math.max(0, Number.isNaN(Number(options.wait)) ? DEFAULTS.SPA_WAIT_MS : Number(options.wait)),
 		),
+		waitFor: parseWaitFor(options.waitFor),
 		headed: Boolean(options.headed),
 		diff: Boolean(options.diff),
 		pages: options.pages !== false,
@@ -114,16 +671,76 @@ export function parseConfig(
 		chunks: options.chunks === true,
 		keepSession: Boolean(options.keepSession),
 		respectRobots: options.robots !== false,
+		respectMetaRobots: options.metaRobots !== false,
+		fetcher,
+		concurrency: Math.min(
+			DEFAULTS.MAX_CONCURRENCY,
+			Math.max(
+				1,
+				Number.isNaN(Number(options.concurrency))
+					? DEFAULTS.CONCURRENCY
+					: Math.floor(Number(options.concurrency)),
+			),
+		),
+		strategy: parseChoice(options.strategy, CRAWL_STRATEGIES, DEFAULTS.STRATEGY, "strategy"),
+		resume: Boolean(options.resume),
+		sitemap: parseChoice(options.sitemap, SITEMAP_MODES, DEFAULTS.SITEMAP_MODE, "sitemap"),
+		urlPolicy: {
+			dropParams: [...DEFAULTS.DROP_PARAMS, ...parseList(options.dropParam)],
+			keepParams: keepParams.length > 0 ? keepParams : null,
+			sortQuery: Boolean(options.sortQuery),
+			trailingSlash: parseChoice(
+				options.trailingSlash,
+				TRAILING_SLASH_MODES,
+				DEFAULTS.TRAILING_SLASH,
+				"trailingSlash",
+			),
+			collapseIndex: options.collapseIndex !== false,
+			honorCanonical: options.canonical !== false,
+		},
+		dedupe: parseChoice(options.dedupe, DEDUPE_MODES, DEFAULTS.DEDUPE, "dedupe"),
+		dedupeDistance: Math.min(
+			DEFAULTS.MAX_DEDUPE_DISTANCE,
+			Math.max(
+				0,
+				Number.isNaN(Number(options.dedupeDistance))
+					? DEFAULTS.DEDUPE_DISTANCE
+					: Math.floor(Number(options.dedupeDistance)),
+			),
+		),
+		headers: parseHeaders(options.header, options.auth),
+		cookies: parseCookies(options.cookie, options.cookiesFile, seeds),
+		...parseAgents(options.userAgent, options.robotsAgent),
+		...parseProxy(options.proxy, fetcher, warnings),
+		...parseLogin(options, fetcher),
+		record,
+		replay,
 		version,
 	};
 
-	// Collect warnings (output is delegated to the caller via CrawlLogger)
-	const warnings: string[] = [];
 	if (!config.pages && !config.merge && !config.chunks) {
 		warnings.push(
 			"All output formats are disabled (--no-pages --no-merge without --chunks). Only index.json will be generated. Consider adding --chunks.",
 		);
 	}
+	if (options.sameDomain === false) {
+		warnings.push("--no-same-domain is deprecated. Use --scope any instead.");
+	}
+	if (config.resume && !config.pages) {
+		warnings.push(
+			"--resume with --no-pages: pages crawled before the interruption are not included in full.md or chunks.",
+		);
+	}
+	if (config.waitFor && config.fetcher === "http") {
+		warnings.push("--wait-for has no effect with --fetcher http (pages are not rendered).");
+	}
+	// 深さ優先の訪問順は直前のページのリンクに依存するため、並列に先読みできない
+	if (config.strategy === "dfs" && config.concurrency > 1) {
+		warnings.push(
+			`--strategy dfs crawls one page at a time; --concurrency ${config.concurrency} is ignored.`,
+		);
+		config.concurrency = 1;
+	}
 
 	return { config, warnings };
 }
@@ -8,6 +8,8 @@ export const DEFAULTS = {
 	MAX_PAGES_LIMIT: 10000,
 	/** 出力ディレクトリ */
 	OUTPUT_DIR: "./.context",
+	/** クロール範囲 */
+	SCOPE: "host",
 	/** リクエスト間の遅延(ms) */
 	DELAY_MS: 500,
 	/** リクエスト間の遅延の上限(ms) */
@@ -20,6 +22,109 @@ export const DEFAULTS = {
 	SPA_WAIT_MS: 2000,
 	/** SPAページ待機時間の上限(ms) */
 	MAX_SPA_WAIT_MS: 30000,
+	/** Fetcher の種類 */
+	FETCHER: "playwright",
+	/** robots.txt・meta robots で照合するクローラーのトークン */
+	ROBOTS_AGENT: "link-crawler",
+	/** 一時的なフェッチ失敗の再試行回数 */
+	RETRIES: 2,
+	/** 再試行回数の上限 */
+	MAX_RETRIES: 10,
+	/** ホストへのリクエストを止めるまでの連続失敗回数（0で無効） */
+	BREAKER_THRESHOLD: 5,
+	/** 連続失敗でリクエストを止める時間(秒) */
+	BREAKER_COOLDOWN_SEC: 60,
+	/** リクエストを止める時間の上限(秒) */
+	MAX_BREAKER_COOLDOWN_SEC: 3600,
+	/** 並列ワーカー数 */
+	CONCURRENCY: 1,
+	/** 並列ワーカー数の上限 */
+	MAX_CONCURRENCY: 16,
+	/** クロール順序 */
+	STRATEGY: "bfs",
+	/** チェックポイントを保存するページ間隔 */
+	CHECKPOINT_INTERVAL: 10,
+	/** サイトマップの利用方法 */
+	SITEMAP_MODE: "off",
+	/** URL末尾のスラッシュの扱い */
+	TRAILING_SLASH: "keep",
+	/** URL正規化で常に除去するクエリパラメータ（末尾の * は前方一致） */
+	DROP_PARAMS: ["utm_*", "gclid", "fbclid"],
+	/** 重複コンテンツの検出方法 */
+	DEDUPE: "exact",
+	/** near モードで重複とみなす SimHash のハミング距離 */
+	DEDUPE_DISTANCE: 3,
+	/** SimHash のハミング距離の上限 */
+	MAX_DEDUPE_DISTANCE: 32,
+} as const;
+
+/** 選択可能な Fetcher の種類 */
+export const FETCHER_TYPES = ["auto", "http", "playwright"] as const;
+
+/** 選択可能なクロール順序 */
+export const CRAWL_STRATEGIES = ["bfs", "dfs"] as const;
+
+/** 選択可能なクロール範囲 */
+export const CRAWL_SCOPES = ["prefix", "host", "domain", "any"] as const;
+
+/** 選択可能なサイトマップの利用方法 */
+export const SITEMAP_MODES = ["seed", "only", "off"] as const;
+
+/** 選択可能なURL末尾のスラッシュの扱い */
+export const TRAILING_SLASH_MODES = ["keep", "strip", "add"] as const;
+
+/** 選択可能な重複コンテンツの検出方法 */
+export const DEDUPE_MODES = ["exact", "near", "off"] as const;
+
+/** サイトマップ読み込みの上限 */
+export const SITEMAP_LIMITS = {
+	/** 読み込むサイトマップファイル数（サイトマップインデックスの子を含む） */
+	MAX_FILES: 50,
+	/** 収集するページURL数 */
+	MAX_URLS: 50000,
+} as const;
+
+/** フェッチ再試行の待機時間（指数バックオフ） */
+export const RETRY_BACKOFF = {
+	/** 1回目の再試行までの待機時間の基準値(ms)、以降は再試行ごとに倍にする */
+	BASE_DELAY_MS: 1000,
+	/** バックオフの上限(ms)（Retry-After は DEFAULTS.MAX_DELAY_MS を上限とする） */
+	MAX_DELAY_MS: 30000,
+} as const;
+
+/** ホストごとのリクエスト間隔の適応制御 */
+export const RATE_LIMIT = {
+	/** 429・5xx・タイムアウト・遅い応答の後に追加する間隔の初期値(ms) */
+	INITIAL_BACKOFF_MS: 1000,
+	/** 失敗のたびに追加間隔に掛ける倍率 */
+	BACKOFF_FACTOR: 2,
+	/** 正常な応答のたびに追加間隔に掛ける倍率（初期値を下回ったら追加間隔をなくす） */
+	RECOVERY_FACTOR: 0.5,
+	/** 遅い応答とみなす応答時間（タイムアウトに対する割合） */
+	SLOW_RESPONSE_RATIO: 0.5,
+} as const;
+
+/** --record / --replay のフェッチキャッシュのレイアウト */
+export const FETCH_CACHE = {
+	/** レスポンス本文の格納ディレクトリ（本文のSHA-256ハッシュをファイル名にする） */
+	OBJECTS_DIR: "objects",
+	/** URLごとのエントリの格納ディレクトリ（URLのSHA-256ハッシュをファイル名にする） */
+	ENTRIES_DIR: "entries",
+} as const;
+
+/** JavaScript シェル（SPAの空HTML）判定の閾値 */
+export const SPA_DETECTION = {
+	/** これ未満の本文文字数は無条件でシェルとみなす */
+	MIN_TEXT_LENGTH: 50,
+	/** マウントポイント単独のページでシェルとみなす本文文字数の上限 */
+	MAX_MOUNT_POINT_TEXT_LENGTH: 200,
+	/** noscript 警告のあるページでシェルとみなす本文文字数の上限 */
+	MAX_NOSCRIPT_TEXT_LENGTH: 500,
+	/** SPAフレームワークのマウントポイント */
+	MOUNT_POINT_SELECTORS: ["#root", "#__next", "#app", "#__nuxt"],
+	/** JavaScript の有効化を求める noscript メッセージ */
+	NOSCRIPT_MESSAGE:
+		/(enable|turn on|activate)\s+javascript|javascript\s+(is\s+)?(required|disabled|needed)|needs?\s+javascript/i,
 } as const;
 
 /** ファイル名・プレフィックス */
@@ -40,6 +145,16 @@ export const FILENAME = {
 	SPECS_DIR: "specs",
 	/** チャンク格納ディレクトリ */
 	CHUNKS_DIR: "chunks",
+	/** 並列ワーカー用playwright-cli作業ディレクトリのプレフィックス */
+	SESSION_DIR_PREFIX: ".crawl-session-",
+	/** クロール再開用チェックポイントファイル名 */
+	CHECKPOINT_JSON: ".crawl-checkpoint.json",
+	/** --storage-state 未指定時にログイン後のストレージ状態を並列ワーカーへ渡すファイル名 */
+	LOGIN_STATE_JSON: ".crawl-login-state.json",
+	/** playwright-cli のセッション作成時に渡す設定ファイル名（--proxy のブラウザ設定） */
+	BROWSER_CONFIG_JSON: ".crawl-browser-config.json",
+	/** 認証情報を含む run-code のコードを playwright-cli に渡す一時ファイル名 */
+	CREDENTIALS_CODE_JS: ".crawl-credentials.js",
 } as const;
 
 /** パターン定数 */
@@ -89,4 +204,6 @@ export const EXIT_CODES = {
 	DEPENDENCY_ERROR: 3,
 	/** クロールエラー */
 	CRAWL_ERROR: 4,
+	/** 認証エラー（ログインページへのリダイレクト等） */
+	AUTH_ERROR: 5,
 } as const;
@@ -16,20 +16,46 @@ const __dirname = dirname(__filename);
 const packageJsonPath = join(__dirname, "../package.json");
 const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
 
+/** 繰り返し指定できるオプションの値を配列に集める */
+function collect(value: string, previous: string[]): string[] {
+	return [...previous, value];
+}
+
 program
 	.name("crawl")
 	.description("Crawl technical documentation sites recursively")
-	.argument("[url]", "Starting URL to crawl")
+	.argument("[urls...]", "Starting URLs to crawl")
 	.option("-d, --depth <num>", "Maximum crawl depth", "1")
 	.option("--max-pages <num>", "Maximum number of pages to crawl (0 = unlimited)")
 	.option("-o, --output <dir>", "Output directory (default: ./.context/<site-name>/)")
-	.option("--same-domain", "Only follow same-domain links", true)
-	.option("--no-same-domain", "Follow cross-domain links")
-	.option("--include <pattern>", "Include URL pattern (regex)")
-	.option("--exclude <pattern>", "Exclude URL pattern (regex)")
+	.option("--scope <mode>", "Link scope: prefix|host|domain|any (default: host)")
+	.option("--same-domain", "Only follow same-host links (deprecated: use --scope host)", true)
+	.option("--no-same-domain", "Follow cross-domain links (deprecated: use --scope any)")
+	.option(
+		"--allow-host <host>",
+		"Also crawl this host, e.g. *.example.com (repeatable)",
+		collect,
+		[],
+	)
+	.option("--include <pattern>", "Include URL pattern (regex, repeatable)", collect, [])
+	.option("--exclude <pattern>", "Exclude URL pattern (regex, repeatable)", collect, [])
+	.option("--include-glob <glob>", "Include URL path glob, e.g. /docs/** (repeatable)", collect, [])
+	.option("--exclude-glob <glob>", "Exclude URL path glob, e.g. /blog/** (repeatable)", collect, [])
+	.option("--filter-file <file>", "Read include/exclude rules from a file (one per line)")
 	.option("--delay <ms>", "Delay between requests in ms", "500")
 	.option("--timeout <sec>", "Request timeout in seconds", "30")
+	.option("--retries <n>", "Retry attempts for timeouts, 5xx and 429 responses", "2")
+	.option(
+		"--breaker-threshold <n>",
+		"Consecutive failures before pausing requests to a host (0 = off)",
+		"5",
+	)
+	.option("--breaker-cooldown <sec>", "Seconds to pause a host after repeated failures", "60")
 	.option("--wait <ms>", "Wait time for page rendering in ms", "2000")
+	.option(
+		"--wait-for <condition>",
+		"Wait until selector:<css>, networkidle or text:<string> (up to --wait ms)",
+	)
 	.option("--headed", "Show browser window", false)
 	.option("--diff", "Incremental crawl (update only changed pages)", false)
 	.option("--no-pages", "Skip individual page output")
@@ -37,13 +63,65 @@ program
 	.option("--chunks", "Enable chunked output files", false)
 	.option("--keep-session", "Keep .playwright-cli directory after crawl (for debugging)", false)
 	.option("--no-robots", "Ignore robots.txt (not recommended)")
+	.option("--no-meta-robots", "Ignore meta robots, X-Robots-Tag and rel=nofollow")
+	.option("--fetcher <type>", "Page fetcher: auto|http|playwright", "playwright")
+	.option("--concurrency <n>", "Number of pages to fetch in parallel", "1")
+	.option("--strategy <type>", "Crawl order: bfs (breadth-first) or dfs (depth-first)", "bfs")
+	.option("--resume", "Resume an interrupted crawl from its checkpoint", false)
+	.option("--sitemap <mode>", "Use sitemap.xml: seed|only|off", "off")
+	.option("--seeds <file>", "Read additional starting URLs from a file (one per line)")
+	.option(
+		"--drop-param <name>",
+		"Drop a query parameter from URLs (repeatable, * = prefix)",
+		collect,
+		[],
+	)
+	.option(
+		"--keep-param <name>",
+		"Keep only these query parameters in URLs (repeatable)",
+		collect,
+		[],
+	)
+	.option("--sort-query", "Sort query parameters in URLs", false)
+	.option("--trailing-slash <mode>", "Trailing slash in URLs: keep|strip|add", "keep")
+	.option("--no-collapse-index", "Keep index.html at the end of URLs")
+	.option("--no-canonical", 'Ignore <link rel="canonical"> in pages')
+	.option("--dedupe <mode>", "Duplicate content detection: exact|near|off", "exact")
+	.option("--dedupe-distance <n>", "Max SimHash Hamming distance for --dedupe near", "3")
+	.option(
+		"--header <header>",
+		'Request header "Name: value" (repeatable, env vars expanded)',
+		collect,
+		[],
+	)
+	.option("--cookie <cookie>", "Cookie name=value (repeatable, env vars expanded)", collect, [])
+	.option("--cookies-file <file>", "Read cookies from a Netscape or JSON cookie file")
+	.option("--auth <spec>", "HTTP authentication: basic:<user>:<password> (env vars expanded)")
+	.option("--user-agent <string>", "User-Agent header sent by the HTTP and Playwright fetchers")
+	.option(
+		"--proxy <url>",
+		"Proxy for all requests: http(s)://[user:pass@]host:port or socks5:// (env vars expanded)",
+	)
+	.option(
+		"--robots-agent <token>",
+		"Agent token matched in robots.txt and meta robots",
+		"link-crawler",
+	)
+	.option(
+		"--login-script <file>",
+		"Run a Playwright login script before crawling (needs --login-url)",
+	)
+	.option("--login-url <url>", "Login page URL (a redirect back to it stops the crawl)")
+	.option("--storage-state <file>", "Save/load browser cookies and localStorage after login")
+	.option("--record <dir>", "Record fetched responses to a cache directory")
+	.option("--replay <dir>", "Serve the crawl from a recorded cache (no network)")
 	.version(packageJson.version)
 	.parse();
 
 const options = program.opts();
-const startUrl = program.args[0];
+const startUrls = program.args;
 
-if (!startUrl) {
+if (startUrls.length === 0 && !options.seeds) {
 	program.outputHelp();
 	process.exit(EXIT_CODES.INVALID_ARGUMENTS);
 }
@@ -63,7 +141,7 @@ async function main(): Promise<void> {
 
 	signalHandler.install();
 
-	const { config, warnings } = parseConfig(options, startUrl, packageJson.version);
+	const { config, warnings } = parseConfig(options, startUrls, packageJson.version);
 
 	// 設定パース時の警告を CrawlLogger 経由で出力
 	if (warnings.length > 0) {
@@ -0,0 +1,51 @@
+import type { CacheValidators, Fetcher, FetchResult } from "../types.js";
+import { isJavaScriptShell } from "./spa-detector.js";
+
+/**
+ * 自動選択 Fetcher
+ *
+ * まず HTTP で取得し、レスポンスが JavaScript の空シェルと判定された場合のみ
+ * PlaywrightFetcher で再取得する。PlaywrightFetcher は初めて必要になった時点で生成するため、
+ * 静的サイトだけをクロールする場合は playwright-cli を起動しない。
+ * 条件付きリクエストは HTTP での取得にのみ適用する。
+ */
+export class AutoFetcher implements Fetcher {
+	private browserFetcher: Fetcher | null = null;
+	private browserFetcherPromise: Promise<Fetcher> | null = null;
+
+	constructor(
+		private httpFetcher: Fetcher,
+		private createBrowserFetcher: () => Promise<Fetcher>,
+		private logDebug?: (message: string, data?: unknown) => void,
+	) {}
+
+	async fetch(url: string, validators?: CacheValidators): Promise<FetchResult | null> {
+		const result = await this.httpFetcher.fetch(url, validators);
+		if (
+			!result ||
+			result.notModified ||
+			!result.contentType.includes("text/html") ||
+			!isJavaScriptShell(result.html)
+		) {
+			return result;
+		}
+
+		this.logDebug?.("JavaScript shell detected, re-fetching with playwright-cli", { url });
+		const browserFetcher = await this.getBrowserFetcher();
+		return browserFetcher.fetch(url);
+	}
+
+	/** PlaywrightFetcher を遅延生成（並行呼び出しでも1つだけ生成） */
+	private async getBrowserFetcher(): Promise<Fetcher> {
+		if (!this.browserFetcherPromise) {
+			this.browserFetcherPromise = this.createBrowserFetcher();
+		}
+		this.browserFetcher = await this.browserFetcherPromise;
+		return this.browserFetcher;
+	}
+
+	async close(): Promise<void> {
+		await this.httpFetcher.close?.();
+		await this.browserFetcher?.close?.();
+	}
+}
@@ -0,0 +1,131 @@
+import {
+	existsSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { FILENAME } from "../constants.js";
+import type { QueuedUrl } from "./frontier.js";
+
+/** クロール再開用のチェックポイント */
+export interface CrawlCheckpoint {
+	/** 開始URL（別サイトの出力から再開しないための確認用） */
+	startUrl: string;
+	/** シードURL（別のシードURLのクロールとして再開しないための確認用、古いチェックポイントにはない） */
+	seeds?: string[];
+	/** 保存日時 */
+	savedAt: string;
+	/** クロール待ちURL（取り出し順） */
+	queue: QueuedUrl[];
+	/** 訪問済みURL */
+	visited: string[];
+	/** 再試行しても取得できなかったURL → 試行回数 */
+	failed: Record<string, number>;
+	/** クロール試行数（maxPages制限用） */
+	attemptedCount: number;
+}
+
+/**
+ * CrawlCheckpoint型の型ガード関数
+ * @param value 検証する値
+ * @returns valueがCrawlCheckpoint型であればtrue
+ */
+function isValidCheckpoint(value: unknown): value is CrawlCheckpoint {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const record = value as Record<string, unknown>;
+	return (
+		typeof record.startUrl === "string" &&
+		(record.seeds === undefined ||
+			(Array.isArray(record.seeds) && record.seeds.every((url) => typeof url === "string"))) &&
+		Array.isArray(record.queue) &&
+		record.queue.every(
+			(entry) =>
+				typeof entry?.url === "string" &&
+				typeof entry?.depth === "number" &&
+				Number.isInteger(entry.depth),
+		) &&
+		Array.isArray(record.visited) &&
+		record.visited.every((url) => typeof url === "string") &&
+		typeof record.failed === "object" &&
+		record.failed !== null &&
+		typeof record.attemptedCount === "number"
+	);
+}
+
+/**
+ * チェックポイントを保存
+ * 書き込み途中で中断されても既存のチェックポイントが壊れないよう、一時ファイル経由で置き換える
+ * @returns 保存したファイルパス
+ */
+export function saveCheckpoint(dir: string, checkpoint: CrawlCheckpoint): string {
+	const checkpointPath = join(dir, FILENAME.CHECKPOINT_JSON);
+	const tempPath = `${checkpointPath}.tmp`;
+	writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2));
+	renameSync(tempPath, checkpointPath);
+	return checkpointPath;
+}
+
+/**
+ * チェックポイントを読み込み
+ * @returns チェックポイント（存在しない・形式が不正な場合はnull）
+ */
+export function loadCheckpoint(dir: string): CrawlCheckpoint | null {
+	const checkpointPath = join(dir, FILENAME.CHECKPOINT_JSON);
+	if (!existsSync(checkpointPath)) {
+		return null;
+	}
+	try {
+		const parsed = JSON.parse(readFileSync(checkpointPath, "utf-8"));
+		return isValidCheckpoint(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+/** チェックポイントを削除（クロール完了時） */
+export function removeCheckpoint(dir: string): void {
+	rmSync(join(dir, FILENAME.CHECKPOINT_JSON), { force: true });
+}
+
+/**
+ * 再開に使うチェックポイントのあるディレクトリを探す
+ *
+ * 中断時に確定された出力ディレクトリを優先し、なければプロセスの強制終了などで
+ * 残った一時ディレクトリ（`<outputDir>.tmp-*`）のうち最新のチェックポイントを持つものを返す。
+ * @returns ディレクトリパス（見つからない場合はnull）
+ */
+export function findCheckpointDir(outputDir: string): string | null {
+	if (existsSync(join(outputDir, FILENAME.CHECKPOINT_JSON))) {
+		return outputDir;
+	}
+
+	const parentDir = dirname(outputDir);
+	const tempPrefix = `${basename(outputDir)}.tmp-`;
+	let latest: { dir: string; mtimeMs: number } | null = null;
+
+	try {
+		for (const name of readdirSync(parentDir)) {
+			if (!name.startsWith(tempPrefix)) {
+				continue;
+			}
+			const checkpointPath = join(parentDir, name, FILENAME.CHECKPOINT_JSON);
+			if (!existsSync(checkpointPath)) {
+				continue;
+			}
+			const { mtimeMs } = statSync(checkpointPath);
+			if (!latest || mtimeMs > latest.mtimeMs) {
+				latest = { dir: join(parentDir, name), mtimeMs };
+			}
+		}
+	} catch {
+		return null;
+	}
+
+	return latest?.dir ?? null;
+}
@@ -0,0 +1,106 @@
+/** オリジンごとのサーキットブレーカーの状態 */
+interface BreakerState {
+	/** 連続失敗回数 */
+	failures: number;
+	/** リクエストを止めた時刻(ms)、閉じている場合はnull */
+	openedAt: number | null;
+	/** 停止期間の経過後に送信した試行リクエストの応答待ちか */
+	probing: boolean;
+}
+
+/** サーキットブレーカーの設定 */
+export interface CircuitBreakerOptions {
+	/** リクエストを止めるまでの連続失敗回数（0で無効） */
+	threshold: number;
+	/** リクエストを止める時間(ms) */
+	cooldownMs: number;
+	now?: () => number;
+}
+
+/**
+ * ホスト（オリジン）ごとのサーキットブレーカー
+ *
+ * - 閉: リクエストを送信する。タイムアウト・5xx などの失敗が threshold 回続くと開く
+ * - 開: cooldownMs の間はリクエストを送信しない（呼び出し側は resumeAt() まで送信を保留する）
+ * - 半開: 停止期間の経過後、試行リクエストを1つだけ送信する。成功すれば閉じ、失敗すれば再び開く
+ *   （試行リクエストの応答を待つ間、他のリクエストは送信しない）
+ */
+export class CircuitBreaker {
+	private hosts = new Map<string, BreakerState>();
+	private now: () => number;
+
+	constructor(private options: CircuitBreakerOptions) {
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * URLのオリジンにリクエストを送信できるか判定
+	 * 停止期間が経過していれば、このリクエストを試行リクエストとして扱う
+	 */
+	canRequest(url: string): boolean {
+		if (this.resumeAt(url) !== null) {
+			return false;
+		}
+		const state = this.hosts.get(new URL(url).origin);
+		if (state && state.openedAt !== null) {
+			state.probing = true;
+		}
+		return true;
+	}
+
+	/**
+	 * URLのオリジンへのリクエストを再開できる時刻(ms)
+	 * @returns 送信できる場合はnull、試行リクエストの応答待ちの間は Infinity
+	 */
+	resumeAt(url: string): number | null {
+		const state = this.hosts.get(new URL(url).origin);
+		if (!state || state.openedAt === null) {
+			return null;
+		}
+		if (state.probing) {
+			return Number.POSITIVE_INFINITY;
+		}
+		const resumeAt = state.openedAt + this.options.cooldownMs;
+		return this.now() < resumeAt ? resumeAt : null;
+	}
+
+	/** 応答を記録（ブレーカーを閉じる） */
+	recordSuccess(url: string): void {
+		this.hosts.delete(new URL(url).origin);
+	}
+
+	/**
+	 * 再試行しない失敗（タイムアウト・5xx 以外の例外）を記録
+	 * 試行リクエストだった場合は、ブレーカーを開いたまま次のリクエストを試行リクエストとして送信できるようにする
+	 */
+	recordAbort(url: string): void {
+		const state = this.hosts.get(new URL(url).origin);
+		if (state) {
+			state.probing = false;
+		}
+	}
+
+	/**
+	 * タイムアウト・5xx などの失敗を記録
+	 * @returns この失敗でブレーカーが開いた場合は連続失敗回数、それ以外はnull
+	 */
+	recordFailure(url: string): number | null {
+		if (this.options.threshold <= 0) {
+			return null;
+		}
+		const origin = new URL(url).origin;
+		let state = this.hosts.get(origin);
+		if (!state) {
+			state = { failures: 0, openedAt: null, probing: false };
+			this.hosts.set(origin, state);
+		}
+		state.failures++;
+
+		if (state.probing || (state.openedAt === null && state.failures >= this.options.threshold)) {
+			state.openedAt = this.now();
+			state.probing = false;
+			return state.failures;
+		}
+		return null;
+	}
+}
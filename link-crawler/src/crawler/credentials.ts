@@ -0,0 +1,218 @@
+import { isAllowedHost } from "../parser/links.js";
+import type { CrawlConfig, RequestCookie } from "../types.js";
+
+/**
+ * リクエストヘッダー（--header / --auth）を送るホストか
+ * 認証情報を外部サイトに送らないよう、シードURLのホストと --allow-host のホストに限る。
+ */
+export function isCredentialHost(url: string, config: CrawlConfig): boolean {
+	let hostname: string;
+	try {
+		hostname = new URL(url).hostname;
+	} catch {
+		return false;
+	}
+	return (
+		config.seeds.some((seed) => new URL(seed).hostname === hostname) ||
+		isAllowedHost(url, config.allowedHosts)
+	);
+}
+
+/** Cookie をURLに送るか（ドメイン・パス・Secure 属性で判定） */
+function matchesCookie(url: URL, cookie: RequestCookie): boolean {
+	if (cookie.secure && url.protocol !== "https:") {
+		return false;
+	}
+	const domain = cookie.domain.toLowerCase();
+	const domainMatches = domain.startsWith(".")
+		? url.hostname === domain.slice(1) || url.hostname.endsWith(domain)
+		: url.hostname === domain;
+	const path = cookie.path.endsWith("/") ? cookie.path : `${cookie.path}/`;
+	return domainMatches && (url.pathname === cookie.path || url.pathname.startsWith(path));
+}
+
+/**
+ * URLへのリクエストに付与するヘッダー（--header・--auth・--cookie・--cookies-file）
+ * Cookie は各 Cookie のドメイン・パスに一致する場合のみ Cookie ヘッダーにまとめる。
+ */
+export function getCredentialHeaders(url: string, config: CrawlConfig): Record<string, string> {
+	const headers: Record<string, string> = isCredentialHost(url, config)
+		? { ...config.headers }
+		: {};
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return headers;
+	}
+	const cookies = config.cookies
+		.filter((cookie) => matchesCookie(parsed, cookie))
+		.map((cookie) => `${cookie.name}=${cookie.value}`);
+	if (cookies.length > 0) {
+		// --header "Cookie: ..." があれば連結する
+		const name = Object.keys(headers).find((key) => key.toLowerCase() === "cookie") ?? "Cookie";
+		headers[name] = [headers[name], ...cookies].filter(Boolean).join("; ");
+	}
+	return headers;
+}
+
+/** 認証情報（ヘッダー・Cookie）が指定されているか */
+export function hasCredentials(config: CrawlConfig): boolean {
+	return Object.keys(config.headers).length > 0 || config.cookies.length > 0;
+}
+
+/**
+ * ブラウザのコンテキストに認証情報を設定する playwright-cli run-code 用のコード
+ * Cookie は addCookies で登録し、ヘッダーは対象ホストへのリクエストにだけ route で付与する。
+ */
+export function buildBrowserCredentialsCode(config: CrawlConfig): string {
+	const headers = Object.fromEntries(
+		Object.entries(config.headers).map(([name, value]) => [name.toLowerCase(), value]),
+	);
+	const hosts = config.seeds.map((seed) => new URL(seed).hostname);
+	const cookies = config.cookies.map(({ name, value, domain, path, secure }) => ({
+		name,
+		value,
+		domain,
+		path,
+		secure,
+	}));
+
+	return `async (page) => {
+	const context = page.context();
+	const cookies = ${JSON.stringify(cookies)};
+	if (cookies.length > 0) {
+		await context.addCookies(cookies);
+	}
+	const headers = ${JSON.stringify(headers)};
+	const hosts = ${JSON.stringify(hosts)};
+	const patterns = ${JSON.stringify(config.allowedHosts)};
+	if (Object.keys(headers).length > 0) {
+		await context.route(
+			(url) =>
+				hosts.includes(url.hostname) ||
+				patterns.some((pattern) =>
+					pattern.startsWith("*.") ? url.hostname.endsWith(pattern.slice(1)) : url.hostname === pattern,
+				),
+			(route) => route.continue({ headers: { ...route.request().headers(), ...headers } }),
+		);
+	}
+}`;
+}
+
+/** JSON の Cookie（Playwright の storage state やブラウザ拡張のエクスポート形式） */
+interface JsonCookie {
+	name?: unknown;
+	value?: unknown;
+	domain?: unknown;
+	path?: unknown;
+	secure?: unknown;
+	hostOnly?: unknown;
+	expires?: unknown;
+	expirationDate?: unknown;
+}
+
+/**
+ * Cookie ファイル（Netscape 形式または JSON）を解析
+ * 期限切れの Cookie は除外する。
+ * @param content ファイルの内容
+ * @param now 現在時刻（ミリ秒、テスト用）
+ * @throws Error 形式が不正な場合（Cookie の値はメッセージに含めない）
+ */
+export function parseCookieJar(content: string, now = Date.now()): RequestCookie[] {
+	const trimmed = content.trim();
+	const cookies =
+		trimmed.startsWith("[") || trimmed.startsWith("{")
+			? parseJsonCookies(trimmed)
+			: parseNetscapeCookies(content);
+	const nowSec = now / 1000;
+	return cookies
+		.filter((cookie) => cookie.expires <= 0 || cookie.expires > nowSec)
+		.map(({ expires: _expires, ...cookie }) => cookie);
+}
+
+/** Netscape 形式（curl・wget の cookies.txt）を解析 */
+function parseNetscapeCookies(content: string): (RequestCookie & { expires: number })[] {
+	const cookies: (RequestCookie & { expires: number })[] = [];
+	const lines = content.split(/\r?\n/);
+	for (const [index, rawLine] of lines.entries()) {
+		// "#HttpOnly_" で始まる行はコメントではなく HttpOnly の Cookie
+		const line = rawLine.startsWith("#HttpOnly_") ? rawLine.slice("#HttpOnly_".length) : rawLine;
+		if (line.trim() === "" || line.startsWith("#")) {
+			continue;
+		}
+		const fields = line.split("\t");
+		if (fields.length < 7) {
+			throw new Error(`line ${index + 1}: expected 7 tab-separated fields`);
+		}
+		const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+		const host = domain.replace(/^\./, "");
+		cookies.push({
+			name,
+			value: value.join("\t"),
+			domain: includeSubdomains.toUpperCase() === "TRUE" ? `.${host}` : host,
+			path: path || "/",
+			secure: secure.toUpperCase() === "TRUE",
+			expires: Number(expires) || 0,
+		});
+	}
+	return cookies;
+}
+
+/** JSON 形式（Cookie の配列、または { cookies: [...] }）を解析 */
+function parseJsonCookies(content: string): (RequestCookie & { expires: number })[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch {
+		// JSON.parse のメッセージには内容の一部が含まれることがあるため使わない
+		throw new Error("invalid JSON");
+	}
+	const items = Array.isArray(data) ? data : (data as { cookies?: unknown } | null)?.cookies;
+	if (!Array.isArray(items)) {
+		throw new Error("expected an array of cookies or { cookies: [...] }");
+	}
+	return items.map((item: JsonCookie, index) => {
+		if (
+			typeof item?.name !== "string" ||
+			typeof item.value !== "string" ||
+			typeof item.domain !== "string"
+		) {
+			throw new Error(`cookie ${index + 1}: name, value and domain are required`);
+		}
+		const host = item.domain.replace(/^\./, "");
+		const includeSubdomains =
+			item.hostOnly === undefined ? item.domain.startsWith(".") : item.hostOnly === false;
+		return {
+			name: item.name,
+			value: item.value,
+			domain: includeSubdomains ? `.${host}` : host,
+			path: typeof item.path === "string" && item.path !== "" ? item.path : "/",
+			secure: item.secure === true,
+			expires: Number(item.expires ?? item.expirationDate) || 0,
+		};
+	});
+}
+
+/** URLがログインページか（クエリ・フラグメントは無視して比較） */
+export function isLoginPage(url: string, loginUrl: string): boolean {
+	try {
+		const page = new URL(url);
+		const login = new URL(loginUrl);
+		return page.origin === login.origin && page.pathname === login.pathname;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * ログインページ以外をリクエストしてログインページにリダイレクトされたか
+ * セッションが認証されていない・期限切れになったことを示す
+ * @param url リクエストしたURL
+ * @param finalUrl リダイレクト後のURL
+ * @param loginUrl --login-url（null なら判定しない）
+ */
+export function isLoginRedirect(url: string, finalUrl: string, loginUrl: string | null): boolean {
+	return loginUrl !== null && isLoginPage(finalUrl, loginUrl) && !isLoginPage(url, loginUrl);
+}
@@ -0,0 +1,124 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { FETCH_CACHE } from "../constants.js";
+import { computeHash } from "../diff/index.js";
+import { FetchError } from "../errors.js";
+import type { CacheValidators, Fetcher, FetchResult } from "../types.js";
+
+/**
+ * フェッチキャッシュのURLごとのエントリ
+ *
+ * 本文は objects/ に本文のハッシュで格納し、エントリからはハッシュで参照する。
+ * 同じ本文を返すURLが複数あっても本文は1つだけ保存される。
+ */
+export interface FetchCacheEntry {
+	/** リクエストしたURL */
+	url: string;
+	/** HTTP ステータスコード（取得できなかった場合は null） */
+	status: number | null;
+	/** 記録した日時 */
+	recordedAt: string;
+	/** フェッチ結果（null はページを取得できなかった＝404などでスキップされた） */
+	result: (Omit<FetchResult, "html" | "notModified" | "status"> & { body: string }) | null;
+}
+
+/** URLに対応するエントリのパス */
+function getEntryPath(dir: string, url: string): string {
+	return join(dir, FETCH_CACHE.ENTRIES_DIR, `${computeHash(url)}.json`);
+}
+
+/** 本文ハッシュに対応するオブジェクトのパス */
+function getObjectPath(dir: string, hash: string): string {
+	return join(dir, FETCH_CACHE.OBJECTS_DIR, hash);
+}
+
+/**
+ * フェッチ結果を記録する Fetcher（--record）
+ *
+ * 任意の Fetcher をラップし、URLごとのフェッチ結果とステータスをキャッシュに保存する。
+ * - 304 Not Modified の結果は本文を持たないため記録しない（前回の記録を残す）
+ * - 例外（タイムアウト・5xx など）は記録しない。再試行で取得できれば、その結果が記録される
+ */
+export class RecordingFetcher implements Fetcher {
+	constructor(
+		private inner: Fetcher,
+		private dir: string,
+		private logDebug?: (message: string, data?: unknown) => void,
+	) {
+		mkdirSync(join(dir, FETCH_CACHE.ENTRIES_DIR), { recursive: true });
+		mkdirSync(join(dir, FETCH_CACHE.OBJECTS_DIR), { recursive: true });
+	}
+
+	async fetch(url: string, validators?: CacheValidators): Promise<FetchResult | null> {
+		const result = await this.inner.fetch(url, validators);
+		if (result?.notModified) {
+			return result;
+		}
+
+		const entry: FetchCacheEntry = {
+			url,
+			status: result?.status ?? null,
+			recordedAt: new Date().toISOString(),
+			result: null,
+		};
+		if (result) {
+			const { html, notModified: _notModified, status: _status, ...rest } = result;
+			const body = computeHash(html);
+			const objectPath = getObjectPath(this.dir, body);
+			if (!existsSync(objectPath)) {
+				writeFileSync(objectPath, html);
+			}
+			entry.result = { ...rest, body };
+		}
+		writeFileSync(getEntryPath(this.dir, url), JSON.stringify(entry, null, 2));
+		this.logDebug?.("Recorded fetch result", { url, status: entry.status });
+
+		return result;
+	}
+
+	async login(): Promise<void> {
+		await this.inner.login?.();
+	}
+
+	async close(): Promise<void> {
+		await this.inner.close?.();
+	}
+}
+
+/**
+ * 記録したフェッチ結果を再生する Fetcher（--replay）
+ *
+ * ネットワークにも playwright-cli にもアクセスせず、キャッシュだけで応答する。
+ * - 記録のないURLは取得できなかったページとして null を返す
+ * - キャッシュ検証子は使わず、常に記録した本文を返す（差分は本文のハッシュで判定される）
+ */
+export class ReplayFetcher implements Fetcher {
+	constructor(
+		private dir: string,
+		private logDebug?: (message: string, data?: unknown) => void,
+	) {}
+
+	async fetch(url: string): Promise<FetchResult | null> {
+		const entryPath = getEntryPath(this.dir, url);
+		if (!existsSync(entryPath)) {
+			this.logDebug?.("Not in replay cache", { url });
+			return null;
+		}
+
+		const entry = JSON.parse(readFileSync(entryPath, "utf-8")) as FetchCacheEntry;
+		if (!entry.result) {
+			return null;
+		}
+
+		const { body, ...rest } = entry.result;
+		const objectPath = getObjectPath(this.dir, body);
+		if (!existsSync(objectPath)) {
+			throw new FetchError(`Replay cache object missing: ${body}`, url);
+		}
+		return {
+			...rest,
+			html: readFileSync(objectPath, "utf-8"),
+			...(entry.status !== null ? { status: entry.status } : {}),
+		};
+	}
+}
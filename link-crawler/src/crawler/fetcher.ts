@@ -1,10 +1,19 @@
-import { existsSync, mkdirSync, rmSync } from "node:fs";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { isAbsolute, join, normalize, resolve, sep } from "node:path";
-import { PATHS, PATTERNS } from "../constants.js";
-import { DependencyError, FetchError, TimeoutError } from "../errors.js";
-import type { CrawlConfig, Fetcher, FetchResult } from "../types.js";
+import { FILENAME, PATHS, PATTERNS } from "../constants.js";
+import {
+	AuthError,
+	DependencyError,
+	FetchError,
+	HttpStatusError,
+	TimeoutError,
+} from "../errors.js";
+import type { CrawlConfig, Fetcher, FetchResult, WaitCondition } from "../types.js";
 import type { RuntimeAdapter } from "../utils/runtime.js";
 import { createRuntimeAdapter } from "../utils/runtime.js";
+import { buildBrowserCredentialsCode, hasCredentials, isLoginPage } from "./credentials.js";
+import { getBrowserProxyUrl, maskProxyUrl, toBrowserProxy } from "./proxy.js";
+import { isTransientStatus, parseRetryAfter } from "./retry.js";
 
 /** Playwright CLIのパスを検索する設定 */
 export interface PlaywrightPathConfig {
@@ -30,10 +39,43 @@ export interface PlaywrightPathConfig {
  * → デフォルトセッション(--session省略)を使用するよう変更
  *    - open, eval, network: --session オプションを削除
  *    - close: session-stop コマンドに変更
+ *
+ * ### 並列クロール (--concurrency)
+ * playwright-cli のデフォルトセッションは作業ディレクトリ単位で管理されるため、
+ * 2番目以降のワーカーは outputDir 配下の専用ディレクトリを作業ディレクトリとし、
+ * ワーカーごとに独立したブラウザセッションを使用する。
+ *
+ * ### 条件付きリクエスト (--diff)
+ * playwright-cli ではリクエストヘッダーを指定できないため、If-None-Match 等は送らない。
+ * ETag・Last-Modified は networkログから取得して返し、HttpFetcher での条件付きリクエストに使えるようにする。
+ *
+ * ### 認証情報 (--header / --cookie / --cookies-file / --auth)
+ * セッションの最初に about:blank を開き、run-code でブラウザのコンテキストに Cookie を登録し、
+ * 対象ホストへのリクエストにヘッダーを付与する route を設定する。セッションを停止したら設定し直す。
+ * コマンドライン引数はプロセス一覧から読めるため、コードは作業ディレクトリのファイル（0600）に書き出して
+ * run-code --filename で渡し、実行後に削除する。
+ *
+ * ### User-Agent (--user-agent)
+ * playwright-cli の open では User-Agent を指定できないため、セッションの最初に run-code で
+ * コンテキストの User-Agent ヘッダーと navigator.userAgent を置き換える。
+ *
+ * ### プロキシ (--proxy / HTTPS_PROXY / NO_PROXY)
+ * ブラウザ起動時に設定する必要があるため、セッションの最初の open に --config で
+ * launchOptions.proxy を書いた設定ファイルを渡す。設定ファイルは認証情報を含むため close() で削除する。
+ *
+ * ### レンダリング待機 (--wait / --wait-for)
+ * --wait-for の条件は run-code で Playwright の waitForSelector などを使って待ち、--wait をタイムアウトにする。
+ * 条件を評価できない場合（run-code の失敗、不正なセレクターなど）は --wait の残り時間だけ待つ。
+ *
+ * ### ログイン (--login-script / --storage-state)
+ * login() は --login-url を開いてログインスクリプトを run-code で実行し、state-save でストレージ状態を保存する。
+ * スクリプトはパスワードを含みうるため、内容ではなくパスを run-code --filename で渡す（プロセス一覧に出さない）。
+ * 各セッションは最初にこのストレージ状態を state-load で読み込むため、並列ワーカーや以降の実行もログイン済みになる。
  */
 export class PlaywrightFetcher implements Fetcher {
 	private initialized = false;
 	private isClosed = false;
+	private sessionPrepared = false;
 	private nodePath: string = "node";
 	private playwrightPath: string = "playwright-cli";
 	private runtime: RuntimeAdapter;
@@ -44,6 +86,7 @@ export class PlaywrightFetcher implements Fetcher {
 		runtime?: RuntimeAdapter,
 		pathConfig?: PlaywrightPathConfig,
 		private logDebug?: (message: string, data?: unknown) => void,
+		private sessionIndex = 0,
 	) {
 		this.runtime = runtime ?? createRuntimeAdapter();
 		this.pathConfig = pathConfig ?? {
@@ -67,8 +110,11 @@ export class PlaywrightFetcher implements Fetcher {
 		return false;
 	}
 
-	/** playwright-cliの作業ディレクトリ（outputDir を使用） */
+	/** playwright-cliの作業ディレクトリ（outputDir、2番目以降のワーカーはその配下の専用ディレクトリ） */
 	private get cliWorkDir(): string {
+		if (this.sessionIndex > 0) {
+			return resolve(this.config.outputDir, `${FILENAME.SESSION_DIR_PREFIX}${this.sessionIndex}`);
+		}
 		return resolve(this.config.outputDir);
 	}
 
@@ -89,29 +135,19 @@ export class PlaywrightFetcher implements Fetcher {
 	 *
 	 * Note: playwright-cli 0.0.63+ では名前付きセッション(--session=xxx)が
 	 * 2回目以降のコマンドで使えないため、デフォルトセッションを使用。
-	 * これにより並列クロールはできないが、通常の逐次クロールでは問題なし。
+	 * 並列クロール時のセッション分離は作業ディレクトリで行う（クラスコメント参照）。
 	 */
 	private async executeFetch(url: string): Promise<FetchResult | null> {
 		// 防御的チェック: http/httpsのみ許可
-		try {
-			const parsed = new URL(url);
-			if (!["http:", "https:"].includes(parsed.protocol)) {
-				return null;
-			}
-			// URL長の上限チェックを追加
-			if (url.length > 2048) {
-				return null;
-			}
-			// 制御文字のチェックを追加
-			// biome-ignore lint/suspicious/noControlCharactersInRegex: Intentional check for control characters in URLs
-			if (/[\x00-\x1f\x7f]/.test(url)) {
-				return null;
-			}
-		} catch {
-			// URL解析に失敗した場合もnullを返す
+		if (!isFetchableUrl(url)) {
 			return null;
 		}
 
+		// ストレージ状態の読み込みと認証情報の設定はセッションの最初に一度だけ行う
+		if (!this.sessionPrepared) {
+			await this.prepareSession(url);
+		}
+
 		// デフォルトセッションを使用（--session省略）
 		const openArgs = ["open", url];
 		if (this.config.headed) {
@@ -140,15 +176,19 @@ export class PlaywrightFetcher implements Fetcher {
 			return null;
 		}
 
-		// HTTPメタデータ（ステータスコード・content-type）を取得
-		const { statusCode, contentType } = await this.getHttpMetadata();
+		// HTTPメタデータ（ステータスコード・content-type・X-Robots-Tag）を取得
+		const { statusCode, contentType, robotsTag, retryAfter, etag, lastModified } =
+			await this.getHttpMetadata();
 		if (statusCode !== null && (statusCode < 200 || statusCode >= 300)) {
-			// 2xx範囲外はスキップ
+			// 一時的な失敗（408・429・5xx）は再試行できるようにエラーとし、それ以外はスキップ
+			if (isTransientStatus(statusCode)) {
+				throw new HttpStatusError(url, statusCode, parseRetryAfter(retryAfter));
+			}
 			return null;
 		}
 
 		// レンダリング待機
-		await this.runtime.sleep(this.config.spaWait);
+		await this.waitForRender(url);
 
 		// リダイレクト後のURLを取得
 		const urlResult = await this.runCli(["eval", "window.location.href"]);
@@ -166,11 +206,196 @@ export class PlaywrightFetcher implements Fetcher {
 			html,
 			finalUrl,
 			contentType,
+			fetchedBy: "playwright",
+			robotsTag,
+			etag,
+			lastModified,
+			status: statusCode ?? undefined,
 		};
 	}
 
-	/** HTTPメタデータ（ステータスコード・content-type）を取得 */
-	private async getHttpMetadata(): Promise<{ statusCode: number | null; contentType: string }> {
+	/**
+	 * ログイン後のストレージ状態のパス
+	 * --storage-state 未指定でログインする場合は、並列ワーカーに渡すため outputDir に一時的に保存する
+	 */
+	private getStorageStatePath(): string | null {
+		if (this.config.storageState) {
+			return this.config.storageState;
+		}
+		return this.config.loginScript
+			? resolve(this.config.outputDir, FILENAME.LOGIN_STATE_JSON)
+			: null;
+	}
+
+	/**
+	 * セッションの準備（User-Agent の設定、ストレージ状態の読み込み、ブラウザのコンテキストへの認証情報の設定）
+	 * 認証情報の値を含みうるため、playwright-cli の出力はエラーメッセージに使わない
+	 */
+	private async prepareSession(url: string): Promise<void> {
+		const statePath = this.getStorageStatePath();
+		const loadState = statePath !== null && existsSync(statePath);
+		const { userAgent } = this.config;
+		const configPath = this.writeBrowserConfig();
+		if (configPath || userAgent || loadState || hasCredentials(this.config)) {
+			const openArgs = ["open", "about:blank"];
+			if (this.config.headed) {
+				openArgs.push("--headed");
+			}
+			if (configPath) {
+				openArgs.push("--config", configPath);
+			}
+			if (!(await this.runCli(openArgs)).success) {
+				throw new FetchError("Failed to open a playwright-cli session", url);
+			}
+			if (userAgent && !(await this.runCli(["run-code", buildUserAgentCode(userAgent)])).success) {
+				throw new FetchError("Failed to set the user agent in playwright-cli", url);
+			}
+			if (loadState && !(await this.runCli(["state-load", statePath])).success) {
+				throw new FetchError(`Failed to load storage state: ${statePath}`, url);
+			}
+			if (hasCredentials(this.config) && !(await this.applyCredentials()).success) {
+				throw new FetchError("Failed to apply request headers and cookies in playwright-cli", url);
+			}
+		}
+		this.sessionPrepared = true;
+	}
+
+	/**
+	 * ブラウザのコンテキストに認証情報（ヘッダー・Cookie）を設定
+	 * コードはファイル経由で渡し、実行後に削除する
+	 */
+	private async applyCredentials(): Promise<{ success: boolean }> {
+		const codePath = join(this.cliWorkDir, FILENAME.CREDENTIALS_CODE_JS);
+		const workDir = this.cliWorkDir;
+		if (!existsSync(workDir)) {
+			mkdirSync(workDir, { recursive: true });
+		}
+		writeFileSync(codePath, buildBrowserCredentialsCode(this.config), { mode: 0o600 });
+		try {
+			return await this.runCli(["run-code", `--filename=${codePath}`]);
+		} finally {
+			rmSync(codePath, { force: true });
+		}
+	}
+
+	/** playwright-cli の設定ファイルのパス（作業ディレクトリごと） */
+	private get browserConfigPath(): string {
+		return join(this.cliWorkDir, FILENAME.BROWSER_CONFIG_JSON);
+	}
+
+	/**
+	 * ブラウザの起動設定（プロキシ）を設定ファイルに書き出す
+	 * @returns 設定ファイルのパス（設定がなければ null）
+	 */
+	private writeBrowserConfig(): string | null {
+		const proxy = toBrowserProxy(this.config);
+		if (!proxy) {
+			return null;
+		}
+		const workDir = this.cliWorkDir;
+		if (!existsSync(workDir)) {
+			mkdirSync(workDir, { recursive: true });
+		}
+		writeFileSync(
+			this.browserConfigPath,
+			JSON.stringify({ browser: { launchOptions: { proxy } } }, null, 2),
+			{ mode: 0o600 },
+		);
+		this.logDebug?.("Browser proxy configured", {
+			proxy: maskProxyUrl(getBrowserProxyUrl(this.config) ?? ""),
+			bypass: proxy.bypass,
+		});
+		return this.browserConfigPath;
+	}
+
+	/**
+	 * ログインスクリプトを実行してストレージ状態（Cookie・localStorage）を保存
+	 * スクリプトは --login-url を開いた状態で run-code --filename に渡す（`async (page) => { ... }`）。
+	 * @throws AuthError スクリプトが失敗した、または実行後もログインページにいる場合
+	 */
+	async login(): Promise<void> {
+		const { loginScript, loginUrl } = this.config;
+		const statePath = this.getStorageStatePath();
+		if (!loginScript || !loginUrl || !statePath) {
+			return;
+		}
+		await this.ensureInitialized();
+		if (!this.sessionPrepared) {
+			await this.prepareSession(loginUrl);
+		}
+
+		const openArgs = ["open", loginUrl];
+		if (this.config.headed) {
+			openArgs.push("--headed");
+		}
+		const openResult = await this.runCli(openArgs);
+		if (!openResult.success) {
+			throw new AuthError(`Failed to open the login page: ${openResult.stderr.trim()}`, loginUrl);
+		}
+
+		const scriptResult = await this.runCli(["run-code", `--filename=${loginScript}`]);
+		if (!scriptResult.success) {
+			throw new AuthError(`Login script failed: ${scriptResult.stderr.trim()}`, loginUrl);
+		}
+
+		const urlResult = await this.runCli(["eval", "window.location.href"]);
+		const currentUrl = urlResult.success ? parseCliOutput(urlResult.stdout).trim() : "";
+		if (isLoginPage(currentUrl, loginUrl)) {
+			throw new AuthError("Still on the login page after running the login script", loginUrl);
+		}
+
+		if (!(await this.runCli(["state-save", statePath])).success) {
+			throw new AuthError(`Failed to save storage state: ${statePath}`, loginUrl);
+		}
+		this.logDebug?.("Login script completed", { script: loginScript, storageState: statePath });
+	}
+
+	/**
+	 * ページのレンダリングを待つ
+	 * --wait-for の条件を満たすまで（上限 --wait）待ち、評価できなければ --wait の残り時間だけ待つ。
+	 * 実際に待った時間はデバッグログに出力する。
+	 */
+	private async waitForRender(url: string): Promise<void> {
+		const { waitFor, spaWait } = this.config;
+		const start = Date.now();
+		if (!waitFor || spaWait === 0) {
+			await this.runtime.sleep(spaWait);
+			this.logDebug?.("Waited for page rendering", { url, waitedMs: Date.now() - start });
+			return;
+		}
+
+		const result = await this.runCli(["run-code", buildWaitCode(waitFor, spaWait)]);
+		const outcome = result.success ? parseWaitOutcome(result.stdout) : null;
+		if (outcome?.status === "met" || outcome?.status === "timeout") {
+			this.logDebug?.("Waited for page rendering", {
+				url,
+				waitFor,
+				status: outcome.status,
+				waitedMs: Date.now() - start,
+			});
+			return;
+		}
+
+		// 条件を評価できなければ固定時間の待機に戻す（上限は --wait のまま）
+		await this.runtime.sleep(Math.max(0, spaWait - (Date.now() - start)));
+		this.logDebug?.("Waited for page rendering", {
+			url,
+			waitFor,
+			status: "fallback",
+			error: outcome?.message ?? result.stderr.trim(),
+			waitedMs: Date.now() - start,
+		});
+	}
+
+	/** HTTPメタデータ（ステータスコード・content-type・ページ本体のレスポンスヘッダー）を取得 */
+	private async getHttpMetadata(): Promise<{
+		statusCode: number | null;
+		contentType: string;
+		robotsTag?: string;
+		retryAfter?: string;
+		etag?: string;
+		lastModified?: string;
+	}> {
 		try {
 			const networkResult = await this.runCli(["network"]);
 			if (!networkResult.success) {
@@ -207,7 +432,14 @@ export class PlaywrightFetcher implements Fetcher {
 					const contentTypeMatch = logContent.match(/content-type:\s*([^\n\r;]+)/i);
 					const contentType = contentTypeMatch ? contentTypeMatch[1].trim() : "text/html";
 
-					return { statusCode, contentType };
+					return {
+						statusCode,
+						contentType,
+						robotsTag: extractDocumentHeader(logContent, "x-robots-tag"),
+						retryAfter: extractDocumentHeader(logContent, "retry-after"),
+						etag: extractDocumentHeader(logContent, "etag"),
+						lastModified: extractDocumentHeader(logContent, "last-modified"),
+					};
 				}
 			}
 			return { statusCode: null, contentType: "text/html" };
@@ -216,7 +448,8 @@ export class PlaywrightFetcher implements Fetcher {
 		}
 	}
 
-	async fetch(url: string): Promise<FetchResult | null> {
+	/** 初回のみ playwright-cli の有無を確認 */
+	private async ensureInitialized(): Promise<void> {
 		if (!this.initialized) {
 			const hasPlaywright = await this.checkPlaywrightCli();
 			if (!hasPlaywright) {
@@ -227,6 +460,10 @@ export class PlaywrightFetcher implements Fetcher {
 			}
 			this.initialized = true;
 		}
+	}
+
+	async fetch(url: string): Promise<FetchResult | null> {
+		await this.ensureInitialized();
 
 		let timeoutId: ReturnType<typeof setTimeout> | undefined;
 		try {
@@ -256,6 +493,7 @@ export class PlaywrightFetcher implements Fetcher {
 
 			// タイムアウトエラーの場合はセッションをクリーンアップ
 			if (error instanceof TimeoutError) {
+				this.sessionPrepared = false;
 				try {
 					await this.runCli(["session-stop"]);
 				} catch (cleanupError) {
@@ -290,10 +528,25 @@ export class PlaywrightFetcher implements Fetcher {
 			this.logDebug?.(`session-stop failed (expected if already closed): ${error}`);
 		}
 
+		// プロキシの設定ファイルは認証情報を含みうるため、keepSession に関わらず削除
+		if (getBrowserProxyUrl(this.config) && existsSync(this.browserConfigPath)) {
+			rmSync(this.browserConfigPath, { force: true });
+		}
+
+		// --storage-state 未指定のログイン状態は認証情報を含むため、keepSession に関わらず削除
+		if (this.sessionIndex === 0 && !this.config.storageState) {
+			const statePath = this.getStorageStatePath();
+			if (statePath && existsSync(statePath)) {
+				rmSync(statePath, { force: true });
+			}
+		}
+
 		// .playwright-cli ディレクトリをクリーンアップ（outputDir内）
+		// ワーカー専用の作業ディレクトリはディレクトリごと削除
 		if (!this.config.keepSession) {
 			try {
-				const cliDir = join(this.cliWorkDir, ".playwright-cli");
+				const cliDir =
+					this.sessionIndex > 0 ? this.cliWorkDir : join(this.cliWorkDir, ".playwright-cli");
 				if (existsSync(cliDir)) {
 					rmSync(cliDir, { recursive: true, force: true });
 				}
@@ -305,6 +558,106 @@ export class PlaywrightFetcher implements Fetcher {
 	}
 }
 
+/**
+ * networkログからページ本体のレスポンスヘッダーを抽出
+ * 画像などのサブリソースのヘッダーを含めないよう、最初のレスポンス（ページ本体）のみを対象にする
+ * @param name ヘッダー名（複数ある場合は値をカンマ区切りで連結）
+ */
+function extractDocumentHeader(logContent: string, name: string): string | undefined {
+	const start = logContent.search(/status:\s*\d+/);
+	const rest = start === -1 ? logContent : logContent.slice(start);
+	const next = rest.slice(1).search(/status:\s*\d+/);
+	const documentLog = next === -1 ? rest : rest.slice(0, next + 1);
+	const pattern = new RegExp(`${name}:\\s*([^\\n\\r]+)`, "gi");
+	const values = [...documentLog.matchAll(pattern)].map((m) => m[1].trim());
+	return values.length > 0 ? values.join(", ") : undefined;
+}
+
+/**
+ * フェッチ対象として安全なURLか判定
+ * http/https のみ許可し、過度に長いURLや制御文字を含むURLを拒否する
+ * @param url 判定対象のURL
+ * @returns フェッチ可能であればtrue
+ */
+export function isFetchableUrl(url: string): boolean {
+	try {
+		const parsed = new URL(url);
+		if (!["http:", "https:"].includes(parsed.protocol)) {
+			return false;
+		}
+		// URL長の上限チェック
+		if (url.length > 2048) {
+			return false;
+		}
+		// 制御文字のチェック
+		// biome-ignore lint/suspicious/noControlCharactersInRegex: Intentional check for control characters in URLs
+		if (/[\x00-\x1f\x7f]/.test(url)) {
+			return false;
+		}
+		return true;
+	} catch {
+		// URL解析に失敗した場合も拒否
+		return false;
+	}
+}
+
+/**
+ * ブラウザのコンテキストの User-Agent を置き換える playwright-cli run-code 用のコード
+ * リクエストヘッダーと、以降に開くページの navigator.userAgent の両方に反映する。
+ */
+function buildUserAgentCode(userAgent: string): string {
+	return `async (page) => {
+	const context = page.context();
+	const userAgent = ${JSON.stringify(userAgent)};
+	await context.setExtraHTTPHeaders({ "user-agent": userAgent });
+	await context.addInitScript((value) => {
+		Object.defineProperty(navigator, "userAgent", { get: () => value });
+	}, userAgent);
+}`;
+}
+
+/** --wait-for の待機結果（met: 条件を満たした、timeout: --wait に達した、error: 評価できなかった） */
+interface WaitOutcome {
+	status: "met" | "timeout" | "error";
+	message?: string;
+}
+
+/**
+ * --wait-for の条件を待つ playwright-cli run-code 用のコード
+ * 結果は WaitOutcome の JSON 文字列として返す。
+ * @param condition 待機条件
+ * @param timeout 待機の上限（ミリ秒）
+ */
+function buildWaitCode(condition: WaitCondition, timeout: number): string {
+	const options = `{ state: "attached", timeout: ${timeout} }`;
+	const wait =
+		condition.type === "selector"
+			? `page.waitForSelector(${JSON.stringify(condition.selector)}, ${options})`
+			: condition.type === "text"
+				? `page.getByText(${JSON.stringify(condition.text)}).first().waitFor(${options})`
+				: `page.waitForLoadState("networkidle", { timeout: ${timeout} })`;
+
+	return `async (page) => {
+	try {
+		await ${wait};
+		return JSON.stringify({ status: "met" });
+	} catch (error) {
+		const status = error?.name === "TimeoutError" ? "timeout" : "error";
+		return JSON.stringify({ status, message: String(error?.message ?? error) });
+	}
+}`;
+}
+
+/** run-code の出力から待機結果を取り出す（解析できなければ null） */
+function parseWaitOutcome(output: string): WaitOutcome | null {
+	try {
+		const outcome = JSON.parse(parseCliOutput(output)) as WaitOutcome;
+		return typeof outcome?.status === "string" ? outcome : null;
+	} catch {
+		return null;
+	}
+}
+
 /**
  * playwright-cli の出力からHTMLを抽出
  * @param output CLI出力文字列
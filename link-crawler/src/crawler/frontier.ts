@@ -0,0 +1,131 @@
+import type { CrawlStrategy } from "../types.js";
+
+/** クロール待ちURL */
+export interface QueuedUrl {
+	url: string;
+	depth: number;
+}
+
+/**
+ * クロール待ちURLのキュー（フロンティア）
+ *
+ * - bfs: 先入れ先出し。浅いページから順にクロールするため、maxPages の枠が上位ページに使われる
+ * - dfs: 後入れ先出し。ページ内のリンク順に深く辿る
+ *
+ * キュー投入済みのURLが再び見つかった場合は重複投入せず、より浅い深度を保持する。
+ * dfs では再発見したURLをキューの先頭に移し、深さ優先の訪問順を保つ。
+ */
+export class Frontier {
+	private entries: QueuedUrl[] = [];
+	/** bfs で次に取り出す位置 */
+	private head = 0;
+	/** キュー内のURL → 有効なエントリ（dfs で移動した古いエントリは取り出し時に読み飛ばす） */
+	private queued = new Map<string, QueuedUrl>();
+
+	constructor(private strategy: CrawlStrategy) {}
+
+	/** キュー内のURL数 */
+	get size(): number {
+		return this.queued.size;
+	}
+
+	/** キュー内にURLがあるか */
+	has(url: string): boolean {
+		return this.queued.has(url);
+	}
+
+	/**
+	 * URLをキューに追加
+	 * @returns 新規に追加した場合はtrue（キュー投入済みの場合はfalse）
+	 */
+	push(url: string, depth: number): boolean {
+		const existing = this.queued.get(url);
+		if (!existing) {
+			this.append({ url, depth });
+			return true;
+		}
+
+		if (this.strategy === "dfs") {
+			this.append({ url, depth: Math.min(existing.depth, depth) });
+		} else if (depth < existing.depth) {
+			existing.depth = depth;
+		}
+		return false;
+	}
+
+	/**
+	 * 同じ深度のURLをまとめて追加
+	 * dfs でも先頭のURLから順に取り出されるよう、逆順に積む
+	 */
+	pushAll(urls: string[], depth: number): void {
+		const ordered = this.strategy === "dfs" ? [...urls].reverse() : urls;
+		for (const url of ordered) {
+			this.push(url, depth);
+		}
+	}
+
+	/**
+	 * チェックポイントから復元
+	 * @param entries 取り出し順に並んだURL
+	 */
+	restore(entries: QueuedUrl[]): void {
+		const ordered = this.strategy === "dfs" ? [...entries].reverse() : entries;
+		for (const { url, depth } of ordered) {
+			this.push(url, depth);
+		}
+	}
+
+	/** キュー内のURLを取り出し順に列挙（チェックポイント用） */
+	toArray(): QueuedUrl[] {
+		const live = this.entries
+			.slice(this.head)
+			.filter((entry) => this.queued.get(entry.url) === entry)
+			.map((entry) => ({ ...entry }));
+		return this.strategy === "dfs" ? live.reverse() : live;
+	}
+
+	/** 次にクロールするURLを取り出さずに参照 */
+	peek(): QueuedUrl | undefined {
+		if (this.strategy === "dfs") {
+			for (let i = this.entries.length - 1; i >= this.head; i--) {
+				if (this.queued.get(this.entries[i].url) === this.entries[i]) {
+					return this.entries[i];
+				}
+			}
+			return undefined;
+		}
+		for (let i = this.head; i < this.entries.length; i++) {
+			if (this.queued.get(this.entries[i].url) === this.entries[i]) {
+				return this.entries[i];
+			}
+		}
+		return undefined;
+	}
+
+	/** 次にクロールするURLを取り出す */
+	shift(): QueuedUrl | undefined {
+		while (this.entries.length > this.head) {
+			const entry = this.strategy === "dfs" ? this.entries.pop() : this.entries[this.head++];
+			if (entry && this.queued.get(entry.url) === entry) {
+				this.queued.delete(entry.url);
+				this.compact();
+				return entry;
+			}
+		}
+		this.compact();
+		return undefined;
+	}
+
+	private append(entry: QueuedUrl): void {
+		this.entries.push(entry);
+		this.queued.set(entry.url, entry);
+	}
+
+	/** 取り出し済みの領域を解放 */
+	private compact(): void {
+		if (this.head > 0 && this.head * 2 >= this.entries.length) {
+			this.entries = this.entries.slice(this.head);
+			this.head = 0;
+		}
+	}
+}
@@ -0,0 +1,219 @@
+import { ProxyAgent, fetch as undiciFetch } from "undici";
+import { FetchError, HttpStatusError, TimeoutError } from "../errors.js";
+import type { CacheValidators, CrawlConfig, Fetcher, FetchResult } from "../types.js";
+import { getCredentialHeaders } from "./credentials.js";
+import { isFetchableUrl } from "./fetcher.js";
+import { resolveProxy } from "./proxy.js";
+import { isTransientStatus, parseRetryAfter } from "./retry.js";
+
+/** fetch 関数の型（テスト用に差し替え可能にするため） */
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * HTTP Fetcher（静的サイト向け）
+ *
+ * playwright-cli を起動せず、ランタイム組み込みの fetch でHTMLを取得する。
+ * JavaScript は実行しないため、SPA では描画前のHTMLしか得られない。
+ *
+ * - リダイレクトは自動追従し、最終URLを finalUrl として返す
+ * - 本文は Content-Type の charset、なければ <meta charset> の文字コードでデコードする（既定は UTF-8）
+ * - 2xx範囲外のステータスは PlaywrightFetcher と同様に null を返してスキップ
+ * - ただし一時的な失敗（408・429・5xx）は再試行できるよう HttpStatusError をスローする
+ * - キャッシュ検証子を指定すると If-None-Match / If-Modified-Since を送り、304 は notModified として返す
+ * - --header・--auth・--cookie の認証情報を付与する（robots.txt・サイトマップの取得にも適用）
+ * - --proxy・HTTPS_PROXY のプロキシを経由する（NO_PROXY のホストを除く）。Bun は fetch の proxy オプション、
+ *   Node.js は組み込みの fetch がプロキシを指定できないため undici の ProxyAgent を dispatcher に渡す
+ */
+export class HttpFetcher implements Fetcher {
+	private fetchFn: FetchFunction;
+	/** プロキシURL → Node.js でプロキシを経由する ProxyAgent（接続を使い回す） */
+	private proxyAgents = new Map<string, ProxyAgent>();
+
+	constructor(
+		private config: CrawlConfig,
+		fetchFn?: FetchFunction,
+		private logDebug?: (message: string, data?: unknown) => void,
+	) {
+		this.fetchFn = fetchFn ?? defaultFetch;
+	}
+
+	async fetch(url: string, validators?: CacheValidators): Promise<FetchResult | null> {
+		// 防御的チェック: http/httpsのみ許可
+		if (!isFetchableUrl(url)) {
+			return null;
+		}
+
+		// タイムアウトはレスポンスボディの読み込みまで含めて適用
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+		const proxy = resolveProxy(url, this.config);
+		try {
+			const response = await this.fetchFn(url, {
+				redirect: "follow",
+				signal: controller.signal,
+				...(proxy ? this.getProxyOptions(proxy) : {}),
+				headers: {
+					Accept: "text/html,application/xhtml+xml,*/*;q=0.8",
+					...(this.config.userAgent ? { "User-Agent": this.config.userAgent } : {}),
+					...getCredentialHeaders(url, this.config),
+					...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+					...(validators?.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
+				},
+			});
+
+			if (response.status === 304) {
+				await response.body?.cancel();
+				return {
+					html: "",
+					finalUrl: response.url || url,
+					contentType: "text/html",
+					fetchedBy: "http",
+					notModified: true,
+					status: 304,
+				};
+			}
+
+			if (!response.ok) {
+				// 2xx範囲外はスキップ（ボディは読み捨てて接続を解放）
+				this.logDebug?.("HTTP fetch returned non-2xx status", { url, status: response.status });
+				await response.body?.cancel();
+				if (isTransientStatus(response.status)) {
+					throw new HttpStatusError(
+						url,
+						response.status,
+						parseRetryAfter(response.headers.get("retry-after")),
+					);
+				}
+				return null;
+			}
+
+			const contentTypeHeader = response.headers.get("content-type");
+			const html = decodeBody(new Uint8Array(await response.arrayBuffer()), contentTypeHeader);
+
+			return {
+				html,
+				finalUrl: response.url || url,
+				contentType: parseContentType(contentTypeHeader),
+				fetchedBy: "http",
+				robotsTag: response.headers.get("x-robots-tag") ?? undefined,
+				etag: response.headers.get("etag") ?? undefined,
+				lastModified: response.headers.get("last-modified") ?? undefined,
+				status: response.status,
+			};
+		} catch (error) {
+			if (error instanceof HttpStatusError) {
+				throw error;
+			}
+			if (controller.signal.aborted) {
+				throw new TimeoutError(
+					`Request timeout after ${this.config.timeout / 1000}s (${this.config.timeout}ms)`,
+					this.config.timeout,
+				);
+			}
+			const message = error instanceof Error ? error.message : String(error);
+			throw new FetchError(message, url, error);
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
+	/** プロキシを経由する fetch のオプション（Bun は proxy、Node.js は dispatcher） */
+	private getProxyOptions(proxy: string): RequestInit {
+		if (typeof Bun !== "undefined") {
+			return { proxy } as RequestInit;
+		}
+		let agent = this.proxyAgents.get(proxy);
+		if (!agent) {
+			agent = new ProxyAgent(proxy);
+			this.proxyAgents.set(proxy, agent);
+		}
+		return { dispatcher: agent } as RequestInit;
+	}
+
+	/** プロキシの接続を閉じる */
+	async close(): Promise<void> {
+		const agents = [...this.proxyAgents.values()];
+		this.proxyAgents.clear();
+		await Promise.all(agents.map((agent) => agent.close()));
+	}
+}
+
+/**
+ * ランタイム組み込みの fetch
+ * dispatcher（Node.js のプロキシ）を指定した場合は、同じ undici の fetch で送る
+ * （Node.js 組み込みの fetch は別バージョンの undici のため、ProxyAgent を渡せない場合がある）
+ */
+function defaultFetch(url: string, init?: RequestInit): Promise<Response> {
+	if (init && "dispatcher" in init) {
+		return undiciFetch(
+			url,
+			init as Parameters<typeof undiciFetch>[1],
+		) as unknown as Promise<Response>;
+	}
+	return globalThis.fetch(url, init);
+}
+
+/**
+ * Content-Type ヘッダーからメディアタイプを抽出
+ * @param header Content-Type ヘッダーの値
+ * @returns パラメータ（charset等）を除いたメディアタイプ（ヘッダーがない場合は text/html）
+ */
+export function parseContentType(header: string | null): string {
+	const mediaType = header?.split(";")[0].trim();
+	return mediaType || "text/html";
+}
+
+/**
+ * レスポンスの本文をデコード
+ * 文字コードは BOM、Content-Type の charset、先頭 1024 バイトの <meta charset> の順に決め、
+ * 指定がない・対応していない場合は UTF-8 とする。
+ * @param body レスポンスの本文
+ * @param contentType Content-Type ヘッダーの値
+ */
+export function decodeBody(body: Uint8Array, contentType: string | null): string {
+	const labels = [
+		detectBom(body),
+		parseCharset(contentType),
+		parseContentType(contentType).includes("html") ? sniffMetaCharset(body) : null,
+	];
+	for (const label of labels) {
+		if (!label) {
+			continue;
+		}
+		try {
+			return new TextDecoder(label).decode(body);
+		} catch {
+			// 対応していない文字コードは次の候補へ
+		}
+	}
+	return new TextDecoder("utf-8").decode(body);
+}
+
+/** Content-Type ヘッダーの charset パラメータ */
+function parseCharset(header: string | null): string | null {
+	const match = header?.match(/;\s*charset\s*=\s*["']?([^"';\s]+)/i);
+	return match ? match[1] : null;
+}
+
+/** BOM から文字コードを判定 */
+function detectBom(body: Uint8Array): string | null {
+	if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) {
+		return "utf-8";
+	}
+	if (body[0] === 0xfe && body[1] === 0xff) {
+		return "utf-16be";
+	}
+	if (body[0] === 0xff && body[1] === 0xfe) {
+		return "utf-16le";
+	}
+	return null;
+}
+
+/** 先頭 1024 バイトの <meta charset> または <meta http-equiv="Content-Type"> の文字コード */
+function sniffMetaCharset(body: Uint8Array): string | null {
+	// 文字コードの宣言は ASCII の範囲にあるため、1バイトずつ文字に変換して探す
+	const head = new TextDecoder("latin1").decode(body.subarray(0, 1024));
+	const match = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+	return match ? match[1] : null;
+}
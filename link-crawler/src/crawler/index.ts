@@ -1,70 +1,154 @@
 import { JSDOM } from "jsdom";
-import { computeHash, Hasher } from "../diff/index.js";
+import { DEFAULTS, RATE_LIMIT } from "../constants.js";
+import { computeHash, computeSimHash, Hasher } from "../diff/index.js";
+import { AuthError, ConfigError } from "../errors.js";
 import { OutputWriter } from "../output/writer.js";
+import { extractCanonicalLink } from "../parser/canonical.js";
 import { htmlToMarkdown } from "../parser/converter.js";
 import { extractContent, extractMetadata } from "../parser/extractor.js";
-import { extractLinks } from "../parser/links.js";
-import type { CrawlConfig, Fetcher, FetchResult, PageMetadata } from "../types.js";
+import { extractLinks, normalizeUrl, shouldCrawl } from "../parser/links.js";
+import { parseRobotsDirectives } from "../parser/robots-meta.js";
+import type {
+	CacheValidators,
+	CrawlConfig,
+	CrawledPage,
+	CrawledPageExtras,
+	Fetcher,
+	FetchResult,
+	PageMetadata,
+} from "../types.js";
 import type { RuntimeAdapter } from "../utils/runtime.js";
 import { createRuntimeAdapter } from "../utils/runtime.js";
+import {
+	type CrawlCheckpoint,
+	findCheckpointDir,
+	loadCheckpoint,
+	removeCheckpoint,
+	saveCheckpoint,
+} from "./checkpoint.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { isLoginRedirect } from "./credentials.js";
+import { Frontier, type QueuedUrl } from "./frontier.js";
 import { CrawlLogger } from "./logger.js";
 import { PostProcessor } from "./post-processor.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { getRetryDelay, isRetryableError } from "./retry.js";
 import { RobotsChecker } from "./robots.js";
+import { collectSitemapUrls } from "./sitemap.js";
 
 /** ページ解析結果 */
 interface ParsedPage {
 	metadata: PageMetadata;
+	/** <link rel="canonical"> を正規化したURL（指定なし・--no-canonical 時はnull） */
+	canonicalLink: string | null;
 	links: string[];
 	title: string | null;
 	markdown: string;
 	hash: string;
+	/** Markdown の SimHash（--dedupe near かつ本文がある場合のみ） */
+	simhash?: string;
+	/** 保存しない理由（noindex の場合のみ） */
+	skipReason: string | null;
 }
 
+/**
+ * 再試行を含むフェッチの結果
+ * held はホストのサーキットブレーカーが開いたため、停止期間の経過まで試行を保留したことを示す
+ */
+type FetchAttempt =
+	| { ok: true; result: FetchResult }
+	| { ok: false; reason: string; attempts: number; held?: boolean };
+
+/** ワーカーによるフェッチ・解析結果（コミット待ち） */
+type PageOutcome =
+	| { kind: "failed"; reason: string; attempts: number }
+	| { kind: "held"; attempts: number }
+	| { kind: "notModified" }
+	| { kind: "spec"; content: string }
+	| { kind: "html"; parsed: ParsedPage; extras: CrawledPageExtras };
+
 /** クローラー */
 export class Crawler {
 	private fetcher!: Fetcher;
 	private writer: OutputWriter;
 	private hasher: Hasher | null = null;
-	private robotsChecker: RobotsChecker | null = null;
+	/** オリジン → robots.txt（初めて接触したときに取得、取得できなかったオリジンはnull） */
+	private robotsCheckers = new Map<string, RobotsChecker | null>();
 	private logger: CrawlLogger;
 	private postProcessor: PostProcessor;
 	private runtime: RuntimeAdapter;
 	private visited = new Set<string>();
+	/** 正規URL → そのページとして保存したURLとコンテンツのハッシュ */
+	private canonicalOwners = new Map<string, { url: string; hash: string }>();
+	/** include/exclude ルールで除外したURL（デバッグログの重複防止） */
+	private filteredUrls = new Set<string>();
 	/** メモリ内のページ内容 (--no-pages時に使用) */
 	private pageContents = new Map<string, string>();
 	private fetcherPromise?: Promise<Fetcher>;
+	/** コンストラクタで注入されたFetcherか（注入時は全ワーカーで共有） */
+	private fetcherInjected: boolean;
+	/** 2番目以降のワーカー用Fetcher */
+	private workerFetchers: Fetcher[] = [];
+	/** クロール待ちキュー（--strategy に応じて bfs/dfs） */
+	private frontier: Frontier;
+	/** ワーカーに割り当て済みで未コミットのURL（割り当て順） */
+	private pending = new Map<number, QueuedUrl>();
+	/** 前回のチェックポイント保存以降にコミットしたページ数 */
+	private commitsSinceCheckpoint = 0;
+	/** 再開するクロールの出力ディレクトリ（--resume時） */
+	private resumeDir: string | null;
 	/** 最大ページ数到達ログの重複防止 */
 	private maxPagesReachedLogged = false;
 	/** クリーンアップ進行中フラグ（重複実行防止） */
 	private isCleaningUp = false;
-	/** フェッチ失敗URLのリトライ管理 */
-	private failedUrls = new Map<string, number>(); // URL → retry count
-	/** リトライ上限 */
-	private static readonly MAX_RETRIES = 2;
-	/** クロール試行数カウンタ (maxPages制限用、リトライによる visited 削除の影響を受けない) */
+	/** 再試行しても取得できなかったURL → 試行回数 */
+	private failedUrls = new Map<string, number>();
+	/** クロール試行数カウンタ (maxPages制限用) */
 	private attemptedCount = 0;
+	/** ホストごとのリクエスト間隔の制御 */
+	private rateLimiter: RateLimiter;
+	/** 連続して失敗したホストへのリクエストを一時的に止める */
+	private circuitBreaker: CircuitBreaker;
+	/** サーキットブレーカーが開いているホストのURL（停止期間の経過後にキューに戻す） */
+	private heldEntries: QueuedUrl[] = [];
+	/** 試行を保留したURL → 保留までに実施した試行回数（再開後の再試行回数に含める） */
+	private heldAttempts = new Map<string, number>();
 
 	constructor(
 		private config: CrawlConfig,
 		fetcher?: Fetcher,
 	) {
 		this.logger = new CrawlLogger(config);
-		this.writer = new OutputWriter(config, this.logger);
+		this.resumeDir = config.resume ? findCheckpointDir(config.outputDir) : null;
+		this.writer = new OutputWriter(config, this.logger, this.resumeDir);
 		this.postProcessor = new PostProcessor(config, this.writer.getWorkingOutputDir(), this.logger);
 		this.runtime = createRuntimeAdapter();
+		this.frontier = new Frontier(config.strategy);
+		// --replay はネットワークにアクセスしないため、リクエスト間隔を空けない
+		this.rateLimiter = new RateLimiter({
+			delay: config.replay ? 0 : config.delay,
+			slowResponseMs: config.timeout * RATE_LIMIT.SLOW_RESPONSE_RATIO,
+			getCrawlDelay: (origin) =>
+				config.replay ? null : (this.robotsCheckers.get(origin)?.getCrawlDelay() ?? null),
+			sleep: (ms) => this.runtime.sleep(ms),
+			logDebug: (msg, data) => this.logger.logDebug(msg, data),
+		});
+		this.circuitBreaker = new CircuitBreaker({
+			threshold: config.breakerThreshold,
+			cooldownMs: config.breakerCooldown,
+		});
+		this.fetcherInjected = fetcher !== undefined;
 		if (fetcher) {
 			this.fetcher = fetcher;
 		} else {
-			this.fetcherPromise = createPlaywrightFetcher(config, (msg, data) =>
-				this.logger.logDebug(msg, data),
-			);
+			this.fetcherPromise = createFetcher(config, (msg, data) => this.logger.logDebug(msg, data));
 		}
 	}
 
 	/** Fetcherの初期化 */
 	private async initFetcher(): Promise<Fetcher> {
 		if (!this.fetcher && this.fetcherPromise) {
-			this.logger.logDebug("Initializing Fetcher (playwright-cli)");
+			this.logger.logDebug(`Initializing Fetcher (${this.config.fetcher})`);
 			this.fetcher = await this.fetcherPromise;
 			this.fetcherPromise = undefined;
 			this.logger.logDebug("Fetcher initialized successfully");
@@ -72,24 +156,73 @@ export class Crawler {
 		return this.fetcher;
 	}
 
-	/** robots.txt の取得 */
+	/**
+	 * ワーカーごとのFetcherを準備
+	 * 各ワーカーは独立したFetcher（playwright-cliではセッション）を持つ。
+	 * コンストラクタで注入されたFetcherは全ワーカーで共有する。
+	 */
+	private async initWorkerFetchers(): Promise<Fetcher[]> {
+		while (this.workerFetchers.length < this.config.concurrency - 1) {
+			const workerIndex = this.workerFetchers.length + 1;
+			this.workerFetchers.push(
+				this.fetcherInjected
+					? this.fetcher
+					: await createFetcher(
+							this.config,
+							(msg, data) => this.logger.logDebug(msg, data),
+							workerIndex,
+						),
+			);
+		}
+		return [this.fetcher, ...this.workerFetchers];
+	}
+
+	/** シードURLのオリジン（重複なし、シード順） */
+	private getSeedOrigins(): string[] {
+		return [...new Set(this.config.seeds.map((seed) => new URL(seed).origin))];
+	}
+
+	/** robots.txt の取得（シードURLのオリジンごと） */
 	private async fetchRobotsTxt(): Promise<void> {
+		for (const origin of this.getSeedOrigins()) {
+			await this.loadRobotsTxt(origin, this.fetcher);
+		}
+	}
+
+	/**
+	 * オリジンの robots.txt を取得してキャッシュ
+	 * 取得できない場合は全許可として扱い、同じオリジンには再リクエストしない
+	 */
+	private async loadRobotsTxt(origin: string, fetcher: Fetcher): Promise<void> {
+		const robotsUrl = `${origin}/robots.txt`;
+		let checker: RobotsChecker | null = null;
 		try {
-			const baseUrl = new URL(this.config.startUrl);
-			const robotsUrl = `${baseUrl.origin}/robots.txt`;
 			this.logger.logDebug("Fetching robots.txt", { url: robotsUrl });
 
-			const result = await this.fetcher.fetch(robotsUrl);
+			const result = await fetcher.fetch(robotsUrl);
 			if (result?.contentType.includes("text/plain")) {
-				this.robotsChecker = new RobotsChecker(result.html, "link-crawler");
-				this.logger.logDebug("robots.txt loaded and parsed", { url: robotsUrl });
+				checker = new RobotsChecker(result.html, this.config.robotsAgent);
+				this.logger.logDebug("robots.txt loaded and parsed", {
+					url: robotsUrl,
+					crawlDelay: checker.getCrawlDelay(),
+					sitemaps: checker.getSitemaps(),
+				});
 			} else {
-				this.logger.logDebug("robots.txt not available (allowing all)");
+				this.logger.logDebug("robots.txt not available (allowing all)", { url: robotsUrl });
 			}
 		} catch (_error) {
 			// 取得失敗時は全許可（エラーログは出力しない）
-			this.logger.logDebug("robots.txt fetch failed (allowing all)");
+			this.logger.logDebug("robots.txt fetch failed (allowing all)", { url: robotsUrl });
 		}
+		this.robotsCheckers.set(origin, checker);
+	}
+
+	/**
+	 * robots.txt が未取得のオリジンか
+	 * --allow-host で許可したホストなど、シードURL以外のオリジンは初めて接触したときに取得する
+	 */
+	private needsRobotsTxt(url: string): boolean {
+		return this.config.respectRobots && !this.robotsCheckers.has(new URL(url).origin);
 	}
 
 	/** クロール開始 */
@@ -99,6 +232,12 @@ export class Crawler {
 
 		this.logger.logStart();
 
+		// ログインスクリプトでセッションを認証（robots.txt などの取得より前に行う）
+		if (this.config.loginScript) {
+			await this.fetcher.login?.();
+			this.logger.logLogin(this.config.storageState);
+		}
+
 		// robots.txt の取得
 		if (this.config.respectRobots) {
 			await this.fetchRobotsTxt();
@@ -113,11 +252,15 @@ export class Crawler {
 		}
 
 		try {
-			await this.crawl(this.config.startUrl, 0);
+			await this.initWorkerFetchers();
+			await this.crawl();
 		} finally {
-			await this.fetcher?.close?.();
+			await this.closeFetchers();
 		}
 
+		// 完了したクロールは再開不要
+		removeCheckpoint(this.writer.getWorkingOutputDir());
+
 		// 差分モード時: 訪問済みURLを渡す
 		if (this.config.diff) {
 			this.writer.setVisitedUrls(this.visited);
@@ -151,6 +294,7 @@ export class Crawler {
 		this.logger.logDebug("Cleanup initiated");
 
 		try {
+			this.writeCheckpoint();
 			this.clearInternalState();
 			this.savePartialIndex();
 			this.generatePartialOutputs();
@@ -162,6 +306,80 @@ export class Crawler {
 		}
 	}
 
+	/** チェックポイントから前回の状態を復元（--resume時） */
+	private restoreCheckpoint(): boolean {
+		if (!this.config.resume) {
+			return false;
+		}
+
+		const checkpoint = this.resumeDir ? loadCheckpoint(this.resumeDir) : null;
+		if (!checkpoint) {
+			this.logger.logWarning("No checkpoint found. Starting a new crawl.");
+			return false;
+		}
+		// seeds のない古いチェックポイントは開始URLだけを比較
+		if (!checkpoint.seeds && checkpoint.startUrl !== this.config.startUrl) {
+			throw new ConfigError(
+				`Checkpoint in ${this.resumeDir} was saved for a different URL: ${checkpoint.startUrl}`,
+				"resume",
+			);
+		}
+		// シードURLは順序を問わず集合として比較（開始URLは最初のシードURLのため、並べ替えると変わる）
+		const savedSeeds = new Set(checkpoint.seeds ?? [checkpoint.startUrl]);
+		const seeds = new Set(this.config.seeds);
+		if (savedSeeds.size !== seeds.size || [...seeds].some((seed) => !savedSeeds.has(seed))) {
+			throw new ConfigError(
+				`Checkpoint in ${this.resumeDir} was saved for different seed URLs: ${[...savedSeeds].join(", ")}`,
+				"resume",
+			);
+		}
+
+		this.visited = new Set(checkpoint.visited);
+		this.failedUrls = new Map(Object.entries(checkpoint.failed));
+		this.attemptedCount = checkpoint.attemptedCount;
+		this.frontier.restore(checkpoint.queue);
+
+		const indexManager = this.writer.getIndexManager();
+		const restoredPages = indexManager.restorePages(this.visited);
+		for (const page of indexManager.getResult().pages) {
+			if (page.canonicalUrl) {
+				this.canonicalOwners.set(page.canonicalUrl, { url: page.url, hash: page.hash });
+			}
+		}
+		this.logger.logResume(restoredPages, this.frontier.size);
+		this.logger.logDebug("Restored checkpoint", {
+			dir: this.resumeDir,
+			savedAt: checkpoint.savedAt,
+		});
+		return true;
+	}
+
+	/** 現在の状態からチェックポイントを作成（割り当て済みで未コミットのURLはキューに戻す） */
+	private createCheckpoint(): CrawlCheckpoint {
+		const pending = [...this.pending.values()];
+		const pendingUrls = new Set(pending.map((entry) => entry.url));
+		return {
+			startUrl: this.config.startUrl,
+			seeds: this.config.seeds,
+			savedAt: new Date().toISOString(),
+			queue: [...pending, ...this.heldEntries, ...this.frontier.toArray()],
+			visited: [...this.visited].filter((url) => !pendingUrls.has(url)),
+			failed: Object.fromEntries(this.failedUrls),
+			attemptedCount: this.attemptedCount - pending.length,
+		};
+	}
+
+	/** 途中経過のindex.jsonとチェックポイントを保存 (ベストエフォート) */
+	private writeCheckpoint(): void {
+		try {
+			this.writer.getIndexManager().saveProgress();
+			const path = saveCheckpoint(this.writer.getWorkingOutputDir(), this.createCheckpoint());
+			this.logger.logDebug("Saved checkpoint", { path });
+		} catch (error) {
+			this.logger.logDebug("Failed to save checkpoint (non-fatal)", { error: String(error) });
+		}
+	}
+
 	/** クリーンアップ: ステップ0 - 内部状態のクリア */
 	private clearInternalState(): void {
 		// Note: attemptedCount は maxPages 制限の判定に使用されるため、
@@ -228,67 +446,407 @@ export class Crawler {
 				// クローズ失敗は無視（ベストエフォート）
 			}
 		}
+		await this.closeWorkerFetchers();
 		this.logger.logDebug("Closed fetcher");
 	}
 
-	/** 再帰クロール */
-	private async crawl(url: string, depth: number): Promise<void> {
-		// 1. 事前チェック
-		if (!this.shouldCrawlUrl(url, depth)) {
-			return;
+	/** 全ワーカーのFetcherをクローズ */
+	private async closeFetchers(): Promise<void> {
+		await this.fetcher?.close?.();
+		await this.closeWorkerFetchers();
+	}
+
+	/** 2番目以降のワーカー用Fetcherをクローズ（共有Fetcherは除く） */
+	private async closeWorkerFetchers(): Promise<void> {
+		const fetchers = new Set(this.workerFetchers.filter((f) => f !== this.fetcher));
+		for (const fetcher of fetchers) {
+			try {
+				await fetcher.close?.();
+			} catch {
+				// クローズ失敗は無視（ベストエフォート）
+			}
 		}
+	}
 
-		// 2. 訪問済みマーク
-		this.visited.add(url); // URL単位で訪問済みを管理（深度は無関係）
-		this.attemptedCount++; // maxPages制限用カウンタをインクリメント
-		this.logger.logCrawlStart(url, depth);
+	/**
+	 * シードURLとサイトマップのURLをキューに追加
+	 * --sitemap only ではシードURLを含めず、サイトマップのURLだけをクロールする
+	 */
+	private async seedFrontier(): Promise<void> {
+		const sitemapUrls = this.config.sitemap === "off" ? [] : await this.loadSitemapUrls();
 
-		// 3. フェッチ
-		const result = await this.fetchPage(url, depth);
-		if (!result) {
-			// フェッチ失敗時のリトライ管理
-			this.handleFetchFailure(url);
-			return;
+		if (this.config.sitemap === "only" && sitemapUrls.length === 0) {
+			this.logger.logWarning("No crawlable URLs found in sitemap. Crawling the start URL only.");
+		}
+		if (this.config.sitemap !== "only" || sitemapUrls.length === 0) {
+			for (const seed of this.config.seeds) {
+				this.enqueue(seed, 0);
+			}
+		}
+		for (const url of sitemapUrls) {
+			this.enqueue(url, 0);
 		}
+	}
+
+	/** サイトマップ（シードURLの各オリジンの robots.txt の Sitemap: 行と /sitemap.xml）からクロール対象のURLを収集 */
+	private async loadSitemapUrls(): Promise<string[]> {
+		const sitemapUrls = this.getSeedOrigins().flatMap((origin) => [
+			...(this.robotsCheckers.get(origin)?.getSitemaps() ?? []),
+			`${origin}/sitemap.xml`,
+		]);
+		const urls = await collectSitemapUrls(this.fetcher, sitemapUrls, (msg, data) =>
+			this.logger.logDebug(msg, data),
+		);
+
+		// リンクと同じ基準（同一ドメイン、include/exclude、バイナリ除外）で絞り込む
+		const crawlable = new Set<string>();
+		const onFiltered = (filtered: string, rule: string) => this.logFilteredUrl(filtered, rule);
+		for (const url of urls) {
+			const normalized = normalizeUrl(url, this.config.startUrl, this.config.urlPolicy);
+			if (normalized && shouldCrawl(normalized, this.visited, this.config, onFiltered)) {
+				crawlable.add(normalized);
+			}
+		}
+		this.logger.logSitemapUrls(crawlable.size);
+		return Array.from(crawlable);
+	}
+
+	/** クロール本体: チェックポイントから再開するかシードURLをキューに追加し、キューが空になるまで処理 */
+	private async crawl(): Promise<void> {
+		if (!this.restoreCheckpoint()) {
+			await this.seedFrontier();
+		}
+		await this.crawlQueue([this.fetcher, ...this.workerFetchers]);
+	}
+
+	/** URLをキューに追加（訪問済みは除外、キュー投入済みはより浅い深度を保持） */
+	private enqueue(url: string, depth: number): void {
+		if (!this.visited.has(url)) {
+			this.frontier.push(url, depth);
+		}
+	}
+
+	/**
+	 * ワーカープールでキューを処理
+	 *
+	 * 空いているワーカーにキュー先頭のURLを割り当て、フェッチと解析を並行実行する。
+	 * 結果の保存とリンクのキュー投入は割り当て順にコミットするため、並行数や応答順に
+	 * かかわらずページ番号と index.json の順序は実行ごとに同じになる。
+	 */
+	private async crawlQueue(fetchers: Fetcher[]): Promise<void> {
+		const idleFetchers = [...fetchers];
+		const inFlight = new Map<number, Promise<void>>();
+		const outcomes = new Map<number, { entry: QueuedUrl; outcome: PageOutcome }>();
+		// コミット待ちの結果を保持しすぎないよう、先行して割り当てる数を制限
+		const maxPending = fetchers.length * 2;
+		let nextSeq = 0;
+		let nextCommit = 0;
+
+		while (true) {
+			this.releaseHeldEntries();
 
-		// フェッチ成功時はリトライカウントをクリア
-		this.failedUrls.delete(url);
+			// 1. 空いているワーカーに割り当て
+			while (
+				!this.isCleaningUp &&
+				idleFetchers.length > 0 &&
+				this.frontier.size > 0 &&
+				nextSeq - nextCommit < maxPending
+			) {
+				// 初めて接触するオリジンは、割り当て前に robots.txt を取得（取得後に割り当て条件を再確認）
+				const next = this.frontier.peek() as QueuedUrl;
+				if (this.needsRobotsTxt(next.url) && this.shouldCrawlUrl(next.url, next.depth)) {
+					await this.loadRobotsTxt(new URL(next.url).origin, idleFetchers[idleFetchers.length - 1]);
+					continue;
+				}
+
+				const entry = this.frontier.shift() as QueuedUrl;
+
+				if (!this.shouldCrawlUrl(entry.url, entry.depth)) {
+					continue;
+				}
+				// サーキットブレーカーが開いているホストのURLは停止期間の経過まで保留
+				if (this.circuitBreaker.resumeAt(entry.url) !== null) {
+					this.holdEntry(entry);
+					continue;
+				}
+
+				this.visited.add(entry.url); // URL単位で訪問済みを管理（深度は無関係）
+				this.attemptedCount++; // maxPages制限用カウンタをインクリメント
+				this.logger.logCrawlStart(entry.url, entry.depth);
+
+				const seq = nextSeq++;
+				this.pending.set(seq, entry);
+				const fetcher = idleFetchers.pop() as Fetcher;
+				inFlight.set(
+					seq,
+					this.processEntry(entry, fetcher).then((outcome) => {
+						outcomes.set(seq, { entry, outcome });
+						inFlight.delete(seq);
+						idleFetchers.push(fetcher);
+					}),
+				);
+			}
+
+			// 2. いずれかのワーカーの完了か、保留中のホストの停止期間の経過を待機
+			const resumeAt = this.isCleaningUp ? null : this.getHeldResumeAt();
+			if (inFlight.size === 0 && resumeAt === null) {
+				break;
+			}
+			const waits = [...inFlight.values()];
+			if (resumeAt !== null) {
+				waits.push(this.runtime.sleep(Math.max(0, resumeAt - Date.now())));
+			}
+			await Promise.race(waits);
 
-		// 4. コンテンツタイプ判定
+			// 3. 完了した結果を割り当て順にコミット
+			let completed = outcomes.get(nextCommit);
+			while (completed) {
+				outcomes.delete(nextCommit);
+				this.commitOutcome(completed.entry, completed.outcome);
+				this.pending.delete(nextCommit);
+				nextCommit++;
+				if (++this.commitsSinceCheckpoint >= DEFAULTS.CHECKPOINT_INTERVAL) {
+					this.commitsSinceCheckpoint = 0;
+					this.writeCheckpoint();
+				}
+				completed = outcomes.get(nextCommit);
+			}
+		}
+	}
+
+	/**
+	 * サーキットブレーカーが開いているホストのURLを、停止期間の経過まで保留
+	 * @param attempts 保留までに実施した試行回数（割り当て前に保留した場合は省略）
+	 */
+	private holdEntry(entry: QueuedUrl, attempts?: number): void {
+		if (attempts !== undefined) {
+			// 割り当てを取り消し、再開後に改めて割り当てる
+			this.visited.delete(entry.url);
+			this.attemptedCount--;
+			this.heldAttempts.set(entry.url, attempts);
+		}
+		this.heldEntries.push(entry);
+		this.logger.logHeld(
+			entry.url,
+			this.circuitBreaker.resumeAt(entry.url) ?? Date.now(),
+			entry.depth,
+		);
+	}
+
+	/** 停止期間が経過したホストの保留中のURLをキューに戻す */
+	private releaseHeldEntries(): void {
+		const released = this.heldEntries.filter(
+			(entry) => this.circuitBreaker.resumeAt(entry.url) === null,
+		);
+		if (released.length > 0) {
+			this.heldEntries = this.heldEntries.filter((entry) => !released.includes(entry));
+			this.frontier.restore(released);
+		}
+	}
+
+	/**
+	 * 保留中のURLのホストで最も早く停止期間が終わる時刻(ms)
+	 * @returns 保留中のURLがない、または試行リクエストの応答待ちのホストだけの場合はnull
+	 */
+	private getHeldResumeAt(): number | null {
+		let earliest: number | null = null;
+		for (const entry of this.heldEntries) {
+			const resumeAt = this.circuitBreaker.resumeAt(entry.url) ?? Date.now();
+			if (Number.isFinite(resumeAt) && (earliest === null || resumeAt < earliest)) {
+				earliest = resumeAt;
+			}
+		}
+		return earliest;
+	}
+
+	/** ワーカー処理: フェッチと解析（共有状態は変更しない） */
+	private async processEntry(entry: QueuedUrl, fetcher: Fetcher): Promise<PageOutcome> {
+		const { url, depth } = entry;
+
+		const fetched = await this.fetchPage(
+			fetcher,
+			url,
+			depth,
+			this.getCacheValidators(url),
+			this.heldAttempts.get(url),
+		);
+		if (!fetched.ok) {
+			return fetched.held
+				? { kind: "held", attempts: fetched.attempts }
+				: { kind: "failed", reason: fetched.reason, attempts: fetched.attempts };
+		}
+		const result = fetched.result;
+
+		// 304 Not Modified: 前回のページをそのまま使う（解析しない）
+		if (result.notModified) {
+			return { kind: "notModified" };
+		}
+
+		// コンテンツタイプ判定
 		if (!result.contentType.includes("text/html")) {
-			this.handleSpecFile(url, result.html);
+			return { kind: "spec", content: result.html };
+		}
+
+		// HTML処理（抽出、変換）
+		const parsed = this.processHtmlPage(url, result.html, result.robotsTag);
+		const canonicalUrl =
+			parsed.canonicalLink ?? normalizeUrl(result.finalUrl, url, this.config.urlPolicy) ?? url;
+		return {
+			kind: "html",
+			parsed,
+			extras: {
+				fetchedBy: result.fetchedBy,
+				canonicalUrl,
+				simhash: parsed.simhash,
+				etag: result.etag,
+				lastModified: result.lastModified,
+			},
+		};
+	}
+
+	/** 差分クロールで前回のページの ETag・Last-Modified を取得（条件付きリクエスト用） */
+	private getCacheValidators(url: string): CacheValidators | undefined {
+		if (!this.config.diff) {
+			return undefined;
+		}
+		const page = this.writer.getIndexManager().getExistingPage(url);
+		if (!page?.etag && !page?.lastModified) {
+			return undefined;
+		}
+		return { etag: page.etag, lastModified: page.lastModified };
+	}
+
+	/** 結果のコミット: 保存とリンクのキュー投入 */
+	private commitOutcome(entry: QueuedUrl, outcome: PageOutcome): void {
+		const { url, depth } = entry;
+
+		if (outcome.kind === "held") {
+			this.holdEntry(entry, outcome.attempts);
+			return;
+		}
+		this.heldAttempts.delete(url);
+
+		if (outcome.kind === "failed") {
+			this.failedUrls.set(url, outcome.attempts);
+			this.writer.getIndexManager().addFailed(url, outcome.reason, outcome.attempts);
+			return;
+		}
+
+		if (outcome.kind === "notModified") {
+			this.commitNotModified(url, depth);
+			return;
+		}
+
+		if (outcome.kind === "spec") {
+			this.handleSpecFile(url, outcome.content);
 			return;
 		}
 
-		// 5. HTML処理（抽出、変換、保存、再帰）
-		await this.processHtmlPage(url, result.html, depth);
+		const canonicalOwner = this.claimCanonicalUrl(
+			url,
+			outcome.extras.canonicalUrl,
+			outcome.parsed.hash,
+		);
+		if (canonicalOwner) {
+			this.commitCanonicalDuplicate(url, canonicalOwner, outcome.parsed.hash, depth);
+		} else if (outcome.parsed.skipReason) {
+			this.writer.getIndexManager().addSkipped(url, outcome.parsed.skipReason);
+			this.logger.logNotSaved(outcome.parsed.skipReason, depth);
+		} else {
+			this.processAndSavePage(url, outcome.parsed, depth, outcome.extras);
+		}
+		this.enqueueLinks(outcome.parsed.links, depth);
 	}
 
-	/** フェッチ失敗時のリトライ管理 */
-	private handleFetchFailure(url: string): void {
-		const retries = this.failedUrls.get(url) ?? 0;
+	/** 304 Not Modified のページを変更なしとして扱い、前回の index.json のリンクを辿る */
+	private commitNotModified(url: string, depth: number): void {
+		const indexManager = this.writer.getIndexManager();
+		const page = indexManager.getExistingPage(url);
+		if (!page) {
+			return;
+		}
 
-		if (retries < Crawler.MAX_RETRIES) {
-			// リトライ可能: visitedから削除してカウントを増やす
-			this.failedUrls.set(url, retries + 1);
-			this.visited.delete(url);
-			this.logger.logDebug("Fetch failed, will retry if linked again", {
-				url,
-				retries: retries + 1,
-				maxRetries: Crawler.MAX_RETRIES,
-			});
+		const canonicalOwner = this.claimCanonicalUrl(url, page.canonicalUrl, page.hash);
+		if (canonicalOwner) {
+			this.commitCanonicalDuplicate(url, canonicalOwner, page.hash, depth);
 		} else {
-			// リトライ上限到達: visitedに残したままにする
-			this.logger.logDebug("Fetch failed, max retries reached", {
-				url,
-				retries,
-			});
+			this.logger.logDebug("Page not modified (304, skipping)", { url });
+			this.logger.logSkipped(depth);
+			indexManager.markUnchanged(url);
+		}
+		this.enqueueLinks(page.links, depth);
+	}
+
+	/**
+	 * 正規URLをページに割り当てる
+	 *
+	 * 同じ正規URLを既に別のURLが持ち、コンテンツも同じ場合（クエリ違いやリダイレクトなど）は
+	 * 重複とする。コンテンツが異なる場合は rel=canonical の誤指定（全ページがトップページを
+	 * 指定しているサイトなど）とみなし、別のページとして扱う。
+	 * 正規URLは訪問済みにしない。コミットより先に割り当てたワーカーの応答順で正規URL自体を
+	 * 取得するかが変わらないよう、正規URLのページも通常どおり取得し、コミット時にこの判定で
+	 * 重複にする（判定はコミット順のため、index.json は実行ごとに同じになる）。
+	 * @param hash ページのコンテンツのハッシュ
+	 * @returns 重複の場合は正規URLを持つURL、それ以外はnull
+	 */
+	private claimCanonicalUrl(
+		url: string,
+		canonicalUrl: string | undefined,
+		hash: string,
+	): string | null {
+		if (!canonicalUrl) {
+			return null;
+		}
+
+		const owner = this.canonicalOwners.get(canonicalUrl);
+		if (owner && owner.url !== url) {
+			if (owner.hash === hash) {
+				return owner.url;
+			}
+			this.logger.logDebug(
+				"Canonical URL owned by a page with different content (not a duplicate)",
+				{
+					url,
+					canonicalUrl,
+					owner: owner.url,
+				},
+			);
+			return null;
+		}
+
+		this.canonicalOwners.set(canonicalUrl, { url, hash });
+		return null;
+	}
+
+	/**
+	 * 正規URLの重複ページを記録（ファイルは作らない、リンクは呼び出し側で辿る）
+	 * 同じコンテンツの保存済みページがあればエイリアス、なければ（正規URLのページが noindex など）skipped に記録する
+	 * @param owner 正規URLを持つURL
+	 */
+	private commitCanonicalDuplicate(url: string, owner: string, hash: string, depth: number): void {
+		const indexManager = this.writer.getIndexManager();
+		const page = indexManager.findPageByHash(hash);
+		if (page) {
+			indexManager.addAlias(page, url);
+			this.logger.logAlias(page.url, depth);
+			return;
+		}
+		const reason = `duplicate of canonical URL (${owner})`;
+		indexManager.addSkipped(url, reason);
+		this.logger.logNotSaved(reason, depth);
+	}
+
+	/** include/exclude ルールで除外したURLを、除外したルールとともに記録（URLごとに1回） */
+	private logFilteredUrl(url: string, rule: string): void {
+		if (!this.filteredUrls.has(url)) {
+			this.filteredUrls.add(url);
+			this.logger.logDebug("URL excluded by filter", { url, rule });
 		}
 	}
 
 	/** クロール可否チェック */
 	private shouldCrawlUrl(url: string, depth: number): boolean {
-		// maxPages制限チェック (attemptedCount を使用することでリトライによる visited 削除の影響を回避)
+		// maxPages制限チェック (ワーカーに割り当てたURLの数 attemptedCount で判定)
 		if (this.config.maxPages !== null && this.attemptedCount >= this.config.maxPages) {
 			if (!this.maxPagesReachedLogged) {
 				this.logger.logMaxPagesReached(this.config.maxPages);
@@ -303,7 +861,8 @@ export class Crawler {
 		}
 
 		// robots.txt チェック
-		if (this.robotsChecker && !this.robotsChecker.isAllowed(url)) {
+		const robotsChecker = this.robotsCheckers.get(new URL(url).origin);
+		if (robotsChecker && !robotsChecker.isAllowed(url)) {
 			this.logger.logDebug("Blocked by robots.txt", { url });
 			return false;
 		}
@@ -311,29 +870,85 @@ export class Crawler {
 		return true;
 	}
 
-	/** ページフェッチとエラーハンドリング */
-	private async fetchPage(url: string, depth: number): Promise<FetchResult | null> {
-		try {
-			const result = await this.fetcher.fetch(url);
-			if (!result) {
-				// fetch()がnullを返した場合：404やエラーページ
-				this.logger.logFetchError(url, "Page not available (404 or error page)", depth);
-				return null;
+	/**
+	 * ページフェッチとエラーハンドリング
+	 *
+	 * タイムアウト・5xx・429 などの一時的な失敗は --retries 回まで再試行する
+	 * （Retry-After があればそれに従い、なければ指数バックオフ）。
+	 * 404・410 などの恒久的な失敗（fetch() が null を返した場合）は再試行しない。
+	 * 再試行を含む各リクエストの前に、ホストごとのリクエスト間隔を待つ。
+	 * ホストのサーキットブレーカーが開いている間はリクエストせず、試行を保留する（held）。
+	 * @param validators 差分クロールで条件付きリクエストに使う前回の ETag・Last-Modified
+	 * @param previousAttempts 保留前に実施した試行回数
+	 */
+	private async fetchPage(
+		fetcher: Fetcher,
+		url: string,
+		depth: number,
+		validators?: CacheValidators,
+		previousAttempts = 0,
+	): Promise<FetchAttempt> {
+		for (let attempt = previousAttempts + 1; ; attempt++) {
+			if (!this.circuitBreaker.canRequest(url)) {
+				const reason = "Host paused after repeated failures";
+				return { ok: false, reason, attempts: attempt - 1, held: true };
 			}
 
-			this.logger.logDebug("Page fetched", {
-				url,
-				depth,
-				contentType: result.contentType,
-				htmlLength: result.html.length,
-			});
+			await this.rateLimiter.acquire(url);
+			const startedAt = Date.now();
+			try {
+				const result = await fetcher.fetch(url, validators);
+				this.rateLimiter.recordResponse(url, Date.now() - startedAt);
+				this.circuitBreaker.recordSuccess(url);
+				if (result && isLoginRedirect(url, result.finalUrl, this.config.loginUrl)) {
+					throw new AuthError(
+						`Redirected to the login page (${result.finalUrl}); the session is not logged in or has expired`,
+						url,
+					);
+				}
+				if (!result) {
+					// fetch()がnullを返した場合：404やエラーページ
+					const reason = "Page not available (404 or error page)";
+					this.logger.logFetchError(url, reason, depth);
+					return { ok: false, reason, attempts: attempt };
+				}
 
-			return result;
-		} catch (error) {
-			// fetch()が例外をスローした場合：FetchError, TimeoutError等
-			const message = error instanceof Error ? error.message : String(error);
-			this.logger.logFetchError(url, message, depth);
-			return null; // スキップして続行（クロール全体は停止しない）
+				this.logger.logDebug("Page fetched", {
+					url,
+					depth,
+					contentType: result.contentType,
+					htmlLength: result.html.length,
+					fetchedBy: result.fetchedBy,
+				});
+
+				return { ok: true, result };
+			} catch (error) {
+				// 認証エラーはクロール全体を停止する
+				if (error instanceof AuthError) {
+					throw error;
+				}
+				// fetch()が例外をスローした場合：FetchError, TimeoutError等
+				const message = error instanceof Error ? error.message : String(error);
+				const retryable = isRetryableError(error);
+				if (retryable) {
+					this.rateLimiter.recordFailure(url);
+					const failures = this.circuitBreaker.recordFailure(url);
+					if (failures !== null) {
+						this.logger.logCircuitOpened(new URL(url).origin, failures);
+					}
+				} else {
+					this.circuitBreaker.recordAbort(url);
+				}
+				if (attempt > this.config.retries || !retryable) {
+					// スキップして続行（クロール全体は停止しない）
+					this.logger.logFetchError(url, message, depth);
+					return { ok: false, reason: message, attempts: attempt };
+				}
+
+				const delay = getRetryDelay(error, attempt);
+				this.logger.logRetry(url, message, attempt, delay, depth);
+				await this.runtime.sleep(delay);
+			}
 		}
 	}
 
@@ -345,39 +960,74 @@ export class Crawler {
 		}
 	}
 
-	/** HTMLページの処理 */
-	private async processHtmlPage(url: string, html: string, depth: number): Promise<void> {
+	/**
+	 * HTMLページの処理（抽出、変換）
+	 * @param robotsTag X-Robots-Tag レスポンスヘッダー
+	 */
+	private processHtmlPage(url: string, html: string, robotsTag?: string): ParsedPage {
 		// 1. JSDOM生成
 		const dom = new JSDOM(html, { url });
 
 		try {
 			// 2. ページ解析
-			const parsed = this.parsePage(dom);
-
-			// 3. 保存処理
-			this.processAndSavePage(url, parsed, depth);
-
-			// 4. 再帰クロール
-			await this.crawlLinks(parsed.links, depth);
+			return this.parsePage(dom, robotsTag);
 		} finally {
 			dom.window.close();
 		}
 	}
 
+	/**
+	 * meta robots と X-Robots-Tag の noindex / nofollow を判定
+	 * @returns それぞれの指定元（"meta robots" または "X-Robots-Tag"、指定なし・--no-meta-robots 時はnull）
+	 */
+	private checkRobotsDirectives(
+		metaRobots: string | null,
+		robotsTag: string | undefined,
+	): { noindex: string | null; nofollow: string | null } {
+		if (!this.config.respectMetaRobots) {
+			return { noindex: null, nofollow: null };
+		}
+		const meta = parseRobotsDirectives([metaRobots], this.config.robotsAgent);
+		const header = parseRobotsDirectives([robotsTag], this.config.robotsAgent);
+		const sourceOf = (key: "noindex" | "nofollow"): string | null =>
+			meta[key] ? "meta robots" : header[key] ? "X-Robots-Tag" : null;
+		return { noindex: sourceOf("noindex"), nofollow: sourceOf("nofollow") };
+	}
+
 	/** ページ解析: メタデータ・リンク・コンテンツの抽出と変換 */
-	private parsePage(dom: JSDOM): ParsedPage {
+	private parsePage(dom: JSDOM, robotsTag?: string): ParsedPage {
 		// メタデータ抽出
 		const metadata = extractMetadata(dom);
+		const canonicalHref = this.config.urlPolicy.honorCanonical ? extractCanonicalLink(dom) : null;
+		const canonicalLink = canonicalHref
+			? normalizeUrl(canonicalHref, canonicalHref, this.config.urlPolicy)
+			: null;
 		this.logger.logDebug("Metadata extracted", {
 			title: metadata.title,
 			description: metadata.description?.substring(0, 100),
 		});
 
-		// リンク抽出
+		const directives = this.checkRobotsDirectives(metadata.robots, robotsTag);
+
+		// リンク抽出（nofollow のページは辿らない）
 		// Issue #745: extractContent は内部でDOMをクローンするため順序依存は解消されたが、
 		// 論理的な順序として先にリンクを抽出する
-		const links = extractLinks(dom, this.visited, this.config);
-		this.logger.logDebug("Links extracted", { linkCount: links.length, links: links.slice(0, 5) });
+		// 訪問済みURLの除外はコミット時のキュー投入で行う（ワーカーの完了順に依存させないため）
+		let links: string[] = [];
+		if (directives.nofollow) {
+			this.logger.logDebug("Links not followed (nofollow)", {
+				url: dom.window.location.href,
+				source: directives.nofollow,
+			});
+		} else {
+			links = extractLinks(dom, new Set(), this.config, (url, rule) =>
+				this.logFilteredUrl(url, rule),
+			);
+			this.logger.logDebug("Links extracted", {
+				linkCount: links.length,
+				links: links.slice(0, 5),
+			});
+		}
 
 		// コンテンツ抽出
 		// Issue #745: 内部でDOMクローンを使用するため、元のDOMは変更されない
@@ -392,23 +1042,75 @@ export class Crawler {
 		const hash = computeHash(markdown);
 		this.logger.logDebug("Content hash computed", { hash: `${hash.substring(0, 16)}...` });
 
-		return { metadata, links, title, markdown, hash };
+		const simhash =
+			this.config.dedupe === "near" && markdown ? computeSimHash(markdown) : undefined;
+
+		const skipReason = directives.noindex ? `noindex (${directives.noindex})` : null;
+
+		return { metadata, canonicalLink, links, title, markdown, hash, simhash, skipReason };
 	}
 
-	/** ページ保存処理: 差分チェックと保存判定 */
-	private processAndSavePage(url: string, parsed: ParsedPage, depth: number): void {
-		// 差分チェックと保存
-		if (this.shouldSavePage(url, parsed.hash, depth)) {
-			this.savePage(
-				url,
-				parsed.markdown,
-				depth,
-				parsed.links,
-				parsed.metadata,
-				parsed.title,
-				parsed.hash,
-			);
+	/** ページ保存処理: 差分チェック・重複コンテンツ判定と保存 */
+	private processAndSavePage(
+		url: string,
+		parsed: ParsedPage,
+		depth: number,
+		extras: CrawledPageExtras,
+	): void {
+		// 差分チェック（変更なしの既存ページもエイリアス判定の対象にする）
+		if (!this.shouldSavePage(url, parsed.hash, depth)) {
+			this.writer.getIndexManager().markUnchanged(url, parsed.simhash, {
+				etag: extras.etag,
+				lastModified: extras.lastModified,
+			});
+			return;
 		}
+
+		// 同じ（near モードでは類似の）コンテンツのページが保存済みなら、ファイルを作らずエイリアスとして記録
+		const duplicate = this.findDuplicatePage(url, parsed);
+		if (duplicate) {
+			this.writer.getIndexManager().addAlias(duplicate.page, url);
+			this.logger.logAlias(duplicate.page.url, depth, duplicate.distance);
+			return;
+		}
+
+		this.savePage(
+			url,
+			parsed.markdown,
+			depth,
+			parsed.links,
+			parsed.metadata,
+			parsed.title,
+			parsed.hash,
+			extras,
+		);
+	}
+
+	/**
+	 * 重複コンテンツの保存済みページを検索
+	 * @returns 保存済みページ（類似コンテンツの場合は SimHash のハミング距離も返す）
+	 */
+	private findDuplicatePage(
+		url: string,
+		parsed: ParsedPage,
+	): { page: CrawledPage; distance?: number } | undefined {
+		if (this.config.dedupe === "off" || !parsed.markdown) {
+			return undefined;
+		}
+
+		const indexManager = this.writer.getIndexManager();
+		const original = indexManager.findPageByHash(parsed.hash);
+		if (original && original.url !== url) {
+			return { page: original };
+		}
+
+		if (parsed.simhash) {
+			const similar = indexManager.findSimilarPage(parsed.simhash, this.config.dedupeDistance);
+			if (similar && similar.page.url !== url) {
+				return similar;
+			}
+		}
+		return undefined;
 	}
 
 	/** 差分モードでの保存判定 */
@@ -442,10 +1144,20 @@ export class Crawler {
 		metadata: PageMetadata,
 		title: string | null,
 		hash: string,
+		extras: CrawledPageExtras,
 	): void {
 		// ページ出力 (--no-pages時はスキップ)
 		if (this.config.pages) {
-			const pageFile = this.writer.savePage(url, markdown, depth, links, metadata, title, hash);
+			const pageFile = this.writer.savePage(
+				url,
+				markdown,
+				depth,
+				links,
+				metadata,
+				title,
+				hash,
+				extras,
+			);
 			this.logger.logPageSaved(pageFile, depth, links.length);
 		} else {
 			// メモリに保存 (Merger/Chunker用)
@@ -453,31 +1165,80 @@ export class Crawler {
 			const frontmatter = this.writer.buildFrontmatter(url, metadata, title, depth, hash);
 			this.pageContents.set(pageFile, frontmatter + markdown);
 			// writerにもページ情報を追加（ファイルは書き込まない）
-			this.writer.registerPage(url, pageFile, depth, links, metadata, title, hash);
+			this.writer.registerPage(url, pageFile, depth, links, metadata, title, hash, extras);
 			this.logger.logPageSaved(pageFile, depth, links.length, true);
 		}
 	}
 
-	/** リンクの再帰クロール */
-	private async crawlLinks(links: string[], depth: number): Promise<void> {
-		// 再帰
-		if (depth < this.config.maxDepth) {
-			for (const link of links) {
-				if (!this.visited.has(link)) {
-					await this.runtime.sleep(this.config.delay);
-					await this.crawl(link, depth + 1);
-				}
-			}
+	/** 抽出したリンクをキューに追加（--sitemap only ではリンクを辿らない） */
+	private enqueueLinks(links: string[], depth: number): void {
+		if (this.config.sitemap !== "only" && depth < this.config.maxDepth) {
+			const unvisited = links.filter((link) => !this.visited.has(link));
+			this.frontier.pushAll(unvisited, depth + 1);
 		}
 	}
 }
 
+/**
+ * Fetcherのファクトリ関数（動的インポート）
+ * --replay ではキャッシュだけで応答し、--record では選択した Fetcher を記録用にラップする。
+ * @param workerIndex ワーカー番号（playwright-cliのセッション分離に使用）
+ */
+async function createFetcher(
+	config: CrawlConfig,
+	logDebug?: (message: string, data?: unknown) => void,
+	workerIndex = 0,
+): Promise<Fetcher> {
+	if (config.replay) {
+		const mod = await import("./fetch-cache.js");
+		return new mod.ReplayFetcher(config.replay, logDebug);
+	}
+	const fetcher = await createBaseFetcher(config, logDebug, workerIndex);
+	if (config.record) {
+		const mod = await import("./fetch-cache.js");
+		return new mod.RecordingFetcher(fetcher, config.record, logDebug);
+	}
+	return fetcher;
+}
+
+/** --fetcher で選択した Fetcher を生成 */
+async function createBaseFetcher(
+	config: CrawlConfig,
+	logDebug?: (message: string, data?: unknown) => void,
+	workerIndex = 0,
+): Promise<Fetcher> {
+	switch (config.fetcher) {
+		case "http":
+			return createHttpFetcher(config, logDebug);
+		case "auto": {
+			const mod = await import("./auto-fetcher.js");
+			return new mod.AutoFetcher(
+				await createHttpFetcher(config, logDebug),
+				() => createPlaywrightFetcher(config, logDebug, workerIndex),
+				logDebug,
+			);
+		}
+		default:
+			return createPlaywrightFetcher(config, logDebug, workerIndex);
+	}
+}
+
+/** HttpFetcherのファクトリ関数（動的インポート） */
+async function createHttpFetcher(
+	config: CrawlConfig,
+	logDebug?: (message: string, data?: unknown) => void,
+): Promise<Fetcher> {
+	const mod = await import("./http-fetcher.js");
+	return new mod.HttpFetcher(config, undefined, logDebug);
+}
+
 /** PlaywrightFetcherのファクトリ関数（動的インポート） */
 async function createPlaywrightFetcher(
 	config: CrawlConfig,
 	logDebug?: (message: string, data?: unknown) => void,
+	workerIndex = 0,
 ): Promise<Fetcher> {
 	// 動的インポートを使用してBun依存のモジュールを遅延ロード
 	const mod = await import("./fetcher.js");
-	return new mod.PlaywrightFetcher(config, undefined, undefined, logDebug);
+	return new mod.PlaywrightFetcher(config, undefined, undefined, logDebug, workerIndex);
 }
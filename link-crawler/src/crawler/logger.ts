@@ -1,4 +1,12 @@
-import type { CrawlConfig, Logger } from "../types.js";
+import type { CrawlConfig, FetcherType, Logger } from "../types.js";
+import { maskProxyUrl } from "./proxy.js";
+
+/** 開始ログに表示する取得モード */
+const FETCHER_MODE_LABELS: Record<FetcherType, string> = {
+	auto: "auto (http, playwright-cli for JavaScript pages)",
+	http: "http",
+	playwright: "playwright-cli",
+};
 
 /**
  * クロールログ出力クラス
@@ -6,6 +14,11 @@ import type { CrawlConfig, Logger } from "../types.js";
  */
 export class CrawlLogger implements Logger {
 	private skippedCount = 0;
+	private aliasCount = 0;
+	private nearDuplicateCount = 0;
+	private notSavedCount = 0;
+	private failedCount = 0;
+	private heldCount = 0;
 	private debug: boolean;
 
 	constructor(
@@ -19,24 +32,92 @@ export class CrawlLogger implements Logger {
 	logStart(): void {
 		console.log(`\n🕷️  Link Crawler v${this.config.version}`);
 		console.log(`   URL: ${this.config.startUrl}`);
+		if (this.config.seeds.length > 1) {
+			console.log(`   Seeds: ${this.config.seeds.length} URLs`);
+		}
 		console.log(`   Depth: ${this.config.maxDepth}`);
 		if (this.config.maxPages !== null) {
 			console.log(`   Max pages: ${this.config.maxPages}`);
 		}
 		console.log(`   Output: ${this.config.outputDir}`);
-		console.log(`   Mode: playwright-cli`);
-		console.log(`   Same domain only: ${this.config.sameDomain}`);
+		if (this.config.replay) {
+			console.log(`   Mode: replay (${this.config.replay})`);
+		} else {
+			console.log(`   Mode: ${FETCHER_MODE_LABELS[this.config.fetcher]}`);
+		}
+		if (this.config.record) {
+			console.log(`   Record: ${this.config.record}`);
+		}
+		const { waitFor } = this.config;
+		if (waitFor) {
+			const condition =
+				waitFor.type === "selector"
+					? `selector:${waitFor.selector}`
+					: waitFor.type === "text"
+						? `text:${waitFor.text}`
+						: "networkidle";
+			console.log(`   Wait for: ${condition} (up to ${this.config.spaWait}ms)`);
+		}
+		console.log(`   User-Agent: ${this.config.userAgent ?? "(fetcher default)"}`);
+		// プロキシの認証情報は表示しない
+		const { httpProxy, httpsProxy } = this.config;
+		if (httpProxy || httpsProxy) {
+			if (httpProxy === httpsProxy) {
+				console.log(`   Proxy: ${maskProxyUrl(httpsProxy as string)}`);
+			} else {
+				console.log(`   Proxy (http): ${httpProxy ? maskProxyUrl(httpProxy) : "(direct)"}`);
+				console.log(`   Proxy (https): ${httpsProxy ? maskProxyUrl(httpsProxy) : "(direct)"}`);
+			}
+			if (this.config.noProxy.length > 0) {
+				console.log(`   No proxy: ${this.config.noProxy.join(", ")}`);
+			}
+		}
+		// 認証情報の値は表示しない
+		const headerNames = Object.keys(this.config.headers);
+		if (headerNames.length > 0) {
+			console.log(`   Headers: ${headerNames.join(", ")}`);
+		}
+		if (this.config.cookies.length > 0) {
+			console.log(`   Cookies: ${this.config.cookies.length}`);
+		}
+		if (this.config.loginScript) {
+			console.log(`   Login: ${this.config.loginScript} (${this.config.loginUrl})`);
+		}
+		if (this.config.storageState) {
+			console.log(`   Storage state: ${this.config.storageState}`);
+		}
+		if (this.config.concurrency > 1) {
+			console.log(`   Concurrency: ${this.config.concurrency}`);
+		}
+		console.log(`   Strategy: ${this.config.strategy}`);
+		if (this.config.sitemap !== "off") {
+			console.log(`   Sitemap: ${this.config.sitemap}`);
+		}
+		if (this.config.resume) {
+			console.log(`   Resume: yes`);
+		}
+		console.log(`   Scope: ${this.config.scope}`);
+		if (this.config.allowedHosts.length > 0) {
+			console.log(`   Allowed hosts: ${this.config.allowedHosts.join(", ")}`);
+		}
 		console.log(`   Diff mode: ${this.config.diff}`);
 		console.log(`   Pages: ${this.config.pages ? "yes" : "no"}`);
 		console.log(`   Merge: ${this.config.merge ? "yes" : "no"}`);
 		console.log(`   Chunks: ${this.config.chunks ? "yes" : "no"}`);
 		console.log(`   Robots.txt: ${this.config.respectRobots ? "respect" : "ignore"}`);
+		console.log(`   Robots agent: ${this.config.robotsAgent}`);
 		if (this.debug) {
 			console.log(`   Debug: enabled`);
 		}
 		console.log("");
 	}
 
+	/** ログインスクリプト完了ログ */
+	logLogin(storageState: string | null): void {
+		const saved = storageState ? ` (storage state saved to ${storageState})` : "";
+		console.log(`🔐 Logged in${saved}\n`);
+	}
+
 	/** 既存ハッシュ読み込みログ */
 	logLoadedHashes(count: number): void {
 		if (count > 0) {
@@ -44,6 +125,16 @@ export class CrawlLogger implements Logger {
 		}
 	}
 
+	/** サイトマップ読み込みログ */
+	logSitemapUrls(count: number): void {
+		console.log(`🗺️  Sitemap: ${count} URLs found\n`);
+	}
+
+	/** クロール再開ログ */
+	logResume(restoredPages: number, queuedUrls: number): void {
+		console.log(`🔁 Resuming crawl: ${restoredPages} pages restored, ${queuedUrls} URLs queued\n`);
+	}
+
 	/** index.json形式エラーログ */
 	logIndexFormatError(indexPath: string): void {
 		console.warn(`[WARN] Invalid index.json format at ${indexPath}`);
@@ -74,6 +165,28 @@ export class CrawlLogger implements Logger {
 		this.skippedCount++;
 	}
 
+	/**
+	 * エイリアスログ（同じ・類似コンテンツのページが保存済みの場合）
+	 * @param distance SimHash のハミング距離（類似コンテンツの場合のみ）
+	 */
+	logAlias(originalUrl: string, depth: number, distance?: number): void {
+		const indent = "  ".repeat(depth);
+		if (distance === undefined) {
+			console.log(`${indent}  ⧉ Alias of ${originalUrl} (same content)`);
+			this.aliasCount++;
+		} else {
+			console.log(`${indent}  ≈ Near duplicate of ${originalUrl} (distance ${distance})`);
+			this.nearDuplicateCount++;
+		}
+	}
+
+	/** 保存しなかったページのログ（noindex など） */
+	logNotSaved(reason: string, depth: number): void {
+		const indent = "  ".repeat(depth);
+		console.log(`${indent}  ⊘ Not saved: ${reason}`);
+		this.notSavedCount++;
+	}
+
 	/** 最大ページ数到達ログ */
 	logMaxPagesReached(limit: number): void {
 		console.log(`\n⚠️  Max pages limit reached (${limit})`);
@@ -88,6 +201,42 @@ export class CrawlLogger implements Logger {
 	logFetchError(url: string, error: string, depth: number): void {
 		const indent = "  ".repeat(depth);
 		console.error(`${indent}  ✗ Fetch Error: ${error} - ${url}`);
+		this.failedCount++;
+	}
+
+	/**
+	 * フェッチ再試行ログ
+	 * @param retry 何回目の再試行か（1始まり）
+	 * @param delayMs 再試行までの待機時間
+	 */
+	logRetry(url: string, error: string, retry: number, delayMs: number, depth: number): void {
+		const indent = "  ".repeat(depth);
+		console.warn(
+			`${indent}  ↻ Retry ${retry}/${this.config.retries} in ${delayMs}ms: ${error} - ${url}`,
+		);
+	}
+
+	/**
+	 * サーキットブレーカーが開いたログ
+	 * @param failures 連続失敗回数
+	 */
+	logCircuitOpened(origin: string, failures: number): void {
+		console.warn(
+			`⚠️  ${origin} failed ${failures} times in a row; pausing requests for ${this.config.breakerCooldown / 1000}s before a single probe`,
+		);
+	}
+
+	/**
+	 * サーキットブレーカーが開いているホストのURLを保留したログ
+	 * @param resumeAt 停止期間が終わる時刻(ms)（試行リクエストの応答待ちの場合は Infinity）
+	 */
+	logHeld(url: string, resumeAt: number, depth: number): void {
+		const indent = "  ".repeat(depth);
+		const until = Number.isFinite(resumeAt)
+			? new Date(resumeAt).toISOString()
+			: "the probe request completes";
+		console.log(`${indent}  ⏸ Held until ${until} (host paused): ${url}`);
+		this.heldCount++;
 	}
 
 	/** 後処理開始ログ */
@@ -131,6 +280,21 @@ export class CrawlLogger implements Logger {
 		if (this.config.diff && this.skippedCount > 0) {
 			console.log(`   Skipped (unchanged): ${this.skippedCount}`);
 		}
+		if (this.aliasCount > 0) {
+			console.log(`   Aliases (same content): ${this.aliasCount}`);
+		}
+		if (this.nearDuplicateCount > 0) {
+			console.log(`   Near duplicates: ${this.nearDuplicateCount}`);
+		}
+		if (this.notSavedCount > 0) {
+			console.log(`   Not saved: ${this.notSavedCount}`);
+		}
+		if (this.failedCount > 0) {
+			console.log(`   Failed: ${this.failedCount}`);
+		}
+		if (this.heldCount > 0) {
+			console.log(`   Held (host paused): ${this.heldCount}`);
+		}
 		console.log(`   Specs: ${specsCount}`);
 		console.log(`   Index: ${indexPath}`);
 	}
@@ -0,0 +1,115 @@
+import { DEFAULTS, RATE_LIMIT } from "../constants.js";
+
+/** オリジンごとのリクエスト間隔の状態 */
+interface HostState {
+	/** 次のリクエストを送信できる時刻(ms) */
+	nextRequestAt: number;
+	/** 429・5xx・遅い応答による追加間隔(ms) */
+	backoff: number;
+}
+
+/** ホストごとのリクエスト間隔の設定 */
+export interface RateLimiterOptions {
+	/** --delay によるリクエスト間隔(ms) */
+	delay: number;
+	/** この時間を超える応答を遅い応答とみなす(ms) */
+	slowResponseMs: number;
+	/** オリジンの robots.txt の Crawl-delay(ms)、指定がない場合はnull */
+	getCrawlDelay: (origin: string) => number | null;
+	sleep: (ms: number) => Promise<void>;
+	now?: () => number;
+	logDebug?: (message: string, data?: unknown) => void;
+}
+
+/**
+ * ホスト（オリジン）ごとのリクエスト間隔の制御
+ *
+ * 同じオリジンへのリクエスト開始の間隔を、次の最大値以上に保つ:
+ * - --delay
+ * - robots.txt の Crawl-delay（DEFAULTS.MAX_DELAY_MS を上限とする）
+ * - 適応的な追加間隔: 429・5xx・タイムアウト・遅い応答のたびに広げ、正常な応答のたびに狭める
+ *
+ * 送信時刻は acquire() の呼び出し時に同期的に予約するため、並列ワーカーが同じオリジンに
+ * 同時にリクエストしても間隔は保たれる。オリジンごとの最初のリクエストは待機しない。
+ */
+export class RateLimiter {
+	private hosts = new Map<string, HostState>();
+	private now: () => number;
+
+	constructor(private options: RateLimiterOptions) {
+		this.now = options.now ?? Date.now;
+	}
+
+	/** URLのオリジンへのリクエスト間隔（追加間隔を含む） */
+	getInterval(url: string): number {
+		const origin = new URL(url).origin;
+		const crawlDelay = this.options.getCrawlDelay(origin);
+		return Math.min(
+			DEFAULTS.MAX_DELAY_MS,
+			Math.max(this.options.delay, crawlDelay ?? 0, this.hosts.get(origin)?.backoff ?? 0),
+		);
+	}
+
+	/**
+	 * リクエストを送信できるまで待機
+	 * @returns 待機した時間(ms)
+	 */
+	async acquire(url: string): Promise<number> {
+		const origin = new URL(url).origin;
+		const now = this.now();
+		const state = this.hosts.get(origin);
+		if (!state) {
+			this.hosts.set(origin, { nextRequestAt: now + this.getInterval(url), backoff: 0 });
+			return 0;
+		}
+
+		const start = Math.max(now, state.nextRequestAt);
+		state.nextRequestAt = start + this.getInterval(url);
+		const wait = start - now;
+		if (wait > 0) {
+			await this.options.sleep(wait);
+		}
+		return wait;
+	}
+
+	/**
+	 * 応答を記録（遅い応答は追加間隔を広げ、それ以外は狭める）
+	 * @param elapsedMs リクエストから応答までの時間
+	 */
+	recordResponse(url: string, elapsedMs: number): void {
+		if (elapsedMs > this.options.slowResponseMs) {
+			this.increaseBackoff(url, "slow response");
+			return;
+		}
+		const state = this.hosts.get(new URL(url).origin);
+		if (!state || state.backoff === 0) {
+			return;
+		}
+		const backoff = state.backoff * RATE_LIMIT.RECOVERY_FACTOR;
+		state.backoff = backoff < RATE_LIMIT.INITIAL_BACKOFF_MS ? 0 : backoff;
+		this.options.logDebug?.("Rate limit backoff decreased", { url, backoff: state.backoff });
+	}
+
+	/** 429・5xx・タイムアウトなどの一時的な失敗を記録（追加間隔を広げる） */
+	recordFailure(url: string): void {
+		this.increaseBackoff(url, "transient failure");
+	}
+
+	private increaseBackoff(url: string, reason: string): void {
+		const origin = new URL(url).origin;
+		let state = this.hosts.get(origin);
+		if (!state) {
+			state = { nextRequestAt: this.now(), backoff: 0 };
+			this.hosts.set(origin, state);
+		}
+		state.backoff = Math.min(
+			DEFAULTS.MAX_DELAY_MS,
+			Math.max(RATE_LIMIT.INITIAL_BACKOFF_MS, state.backoff * RATE_LIMIT.BACKOFF_FACTOR),
+		);
+		this.options.logDebug?.("Rate limit backoff increased", {
+			url,
+			reason,
+			backoff: state.backoff,
+		});
+	}
+}
@@ -0,0 +1,73 @@
+import { DEFAULTS, RETRY_BACKOFF } from "../constants.js";
+import { FetchError, HttpStatusError, TimeoutError } from "../errors.js";
+
+/** 再試行すべき一時的な失敗を示すHTTPステータスか判定（408・429・5xx） */
+export function isTransientStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * 再試行すべき一時的な失敗か判定
+ *
+ * - タイムアウト、ネットワークエラー（FetchError）は再試行する
+ * - HTTPステータスは 408・429・5xx のみ再試行する（404・410 等はフェッチャーが null を返す）
+ * - 依存関係エラーなどそれ以外の例外は再試行しない
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (error instanceof TimeoutError) {
+		return true;
+	}
+	if (error instanceof HttpStatusError) {
+		return isTransientStatus(error.status);
+	}
+	return error instanceof FetchError;
+}
+
+/**
+ * Retry-After ヘッダーを待機時間(ms)に変換
+ * @param header 秒数または HTTP-date
+ * @param now 現在時刻(ms)
+ * @returns 待機時間（解釈できない場合はnull、過去の日時は0）
+ */
+export function parseRetryAfter(
+	header: string | null | undefined,
+	now: number = Date.now(),
+): number | null {
+	const value = header?.trim();
+	if (!value) {
+		return null;
+	}
+	if (/^\d+$/.test(value)) {
+		return Number(value) * 1000;
+	}
+	// HTTP-date は曜日名で始まる（"-5" などを日付として解釈しないようにする）
+	const date = /^[a-z]/i.test(value) ? Date.parse(value) : Number.NaN;
+	if (Number.isNaN(date)) {
+		return null;
+	}
+	return Math.max(0, date - now);
+}
+
+/**
+ * 再試行までの待機時間(ms)
+ *
+ * Retry-After があればそれに従い（DEFAULTS.MAX_DELAY_MS を上限とする）、
+ * なければ指数バックオフにジッターを加える（基準値の半分 + 0〜半分のランダム）。
+ * @param error 失敗の原因
+ * @param attempt 失敗した試行の番号（1始まり）
+ * @param random 0以上1未満の乱数を返す関数（テスト用）
+ */
+export function getRetryDelay(
+	error: unknown,
+	attempt: number,
+	random: () => number = Math.random,
+): number {
+	if (error instanceof HttpStatusError && error.retryAfterMs !== null) {
+		return Math.min(error.retryAfterMs, DEFAULTS.MAX_DELAY_MS);
+	}
+	const backoff = Math.min(
+		RETRY_BACKOFF.MAX_DELAY_MS,
+		RETRY_BACKOFF.BASE_DELAY_MS * 2 ** (attempt - 1),
+	);
+	return Math.round(backoff / 2 + random() * (backoff / 2));
+}
@@ -1,16 +1,22 @@
+import { DEFAULTS } from "../constants.js";
+
 /** robots.txt のルール */
 export interface RobotsRule {
 	userAgent: string;
 	disallow: string[];
 	allow: string[];
+	/** Crawl-delay（秒、指定なしはnull） */
+	crawlDelay: number | null;
 }
 
 /** robots.txt のパーサーとチェッカー */
 export class RobotsChecker {
 	private rules: RobotsRule[] = [];
+	/** Sitemap: 行のURL（User-agent のグループに属さない） */
+	private sitemaps: string[] = [];
 	private userAgent: string;
 
-	constructor(robotsTxt: string, userAgent = "link-crawler") {
+	constructor(robotsTxt: string, userAgent: string = DEFAULTS.ROBOTS_AGENT) {
 		this.userAgent = userAgent;
 		// HTMLタグを除去してからパース（playwright-cli互換性のため）
 		const plainText = this.stripHtml(robotsTxt);
@@ -43,10 +49,18 @@ export class RobotsChecker {
 			.replace(/&#39;/g, "'");
 	}
 
-	/** robots.txt をパース */
+	/**
+	 * robots.txt をパース
+	 *
+	 * RFC 9309 に従い、連続する User-agent 行は1つのグループとしてルールを共有する。
+	 * 同じ User-agent のグループが複数ある場合はルールをまとめる。
+	 */
 	private parse(robotsTxt: string): void {
 		const lines = robotsTxt.split(/\r?\n/);
-		let currentAgent: string | null = null;
+		/** 現在のグループの User-agent ごとのルール */
+		let currentGroup: RobotsRule[] = [];
+		/** 直前の行が User-agent 行か（false の後の User-agent 行は新しいグループを開始） */
+		let readingAgents = false;
 		const ruleMap = new Map<string, RobotsRule>();
 
 		for (const line of lines) {
@@ -66,23 +80,26 @@ export class RobotsChecker {
 			const key = trimmed.substring(0, colonIndex).trim().toLowerCase();
 			const value = trimmed.substring(colonIndex + 1).trim();
 
-			if (key === "user-agent") {
-				currentAgent = value.toLowerCase();
-				if (!ruleMap.has(currentAgent)) {
-					ruleMap.set(currentAgent, {
-						userAgent: currentAgent,
-						disallow: [],
-						allow: [],
-					});
+			if (key === "sitemap") {
+				if (value) {
+					this.sitemaps.push(value);
 				}
-			} else if (currentAgent && (key === "disallow" || key === "allow")) {
-				const rule = ruleMap.get(currentAgent);
-				if (rule) {
-					if (key === "disallow") {
-						rule.disallow.push(value);
-					} else {
-						rule.allow.push(value);
-					}
+			} else if (key === "user-agent") {
+				if (!readingAgents) {
+					currentGroup = [];
+					readingAgents = true;
+				}
+				const agent = value.toLowerCase();
+				let rule = ruleMap.get(agent);
+				if (!rule) {
+					rule = { userAgent: agent, disallow: [], allow: [], crawlDelay: null };
+					ruleMap.set(agent, rule);
+				}
+				currentGroup.push(rule);
+			} else if (key === "disallow" || key === "allow" || key === "crawl-delay") {
+				readingAgents = false;
+				for (const rule of currentGroup) {
+					this.applyDirective(rule, key, value);
 				}
 			}
 		}
@@ -90,14 +107,61 @@ export class RobotsChecker {
 		this.rules = Array.from(ruleMap.values());
 	}
 
+	/** グループのルールに Disallow / Allow / Crawl-delay を追加 */
+	private applyDirective(rule: RobotsRule, key: string, value: string): void {
+		if (key === "disallow") {
+			rule.disallow.push(value);
+		} else if (key === "allow") {
+			rule.allow.push(value);
+		} else {
+			// 不正な値は無視し、複数指定時は最初の値を使う
+			const seconds = Number(value);
+			if (value !== "" && Number.isFinite(seconds) && seconds >= 0 && rule.crawlDelay === null) {
+				rule.crawlDelay = seconds;
+			}
+		}
+	}
+
+	/**
+	 * 該当する User-Agent のルール（優先順位: 指定 > *）
+	 *
+	 * RFC 9309 に従い、グループの User-agent をクローラーのトークンの前方一致で大文字小文字を区別せずに照合する。
+	 * "Googlebot/2.1" のようなバージョンは無視し、複数が一致する場合は最も長いもの（最も具体的なもの）を使う。
+	 */
+	private findRule(): RobotsRule | undefined {
+		const agent = this.userAgent.toLowerCase();
+		let best: { rule: RobotsRule; length: number } | undefined;
+		for (const rule of this.rules) {
+			const token = rule.userAgent.split("/")[0].trim();
+			if (token === "" || token === "*" || !agent.startsWith(token)) {
+				continue;
+			}
+			if (!best || token.length > best.length) {
+				best = { rule, length: token.length };
+			}
+		}
+		return best?.rule ?? this.rules.find((r) => r.userAgent === "*");
+	}
+
+	/**
+	 * Crawl-delay で指定されたリクエスト間隔
+	 * @returns ミリ秒（該当するグループに指定がなければnull）
+	 */
+	getCrawlDelay(): number | null {
+		const seconds = this.findRule()?.crawlDelay ?? null;
+		return seconds === null ? null : Math.round(seconds * 1000);
+	}
+
+	/** Sitemap: 行で指定されたサイトマップのURL */
+	getSitemaps(): string[] {
+		return [...this.sitemaps];
+	}
+
 	/** URL がクロール許可されているか判定 */
 	isAllowed(url: string): boolean {
 		const path = this.getPath(url);
 
-		// 該当する User-Agent ルールを取得（優先順位: 指定 > *）
-		const rule =
-			this.rules.find((r) => r.userAgent === this.userAgent.toLowerCase()) ||
-			this.rules.find((r) => r.userAgent === "*");
+		const rule = this.findRule();
 
 		if (!rule) {
 			// ルールがない場合は全許可
@@ -0,0 +1,108 @@
+import { SITEMAP_LIMITS } from "../constants.js";
+import type { Fetcher } from "../types.js";
+
+/** サイトマップXMLの解析結果 */
+export interface ParsedSitemap {
+	/** ページURL（urlset の loc） */
+	urls: string[];
+	/** 子サイトマップのURL（sitemapindex の loc） */
+	sitemaps: string[];
+}
+
+/** XMLエンティティをデコード */
+function decodeXmlEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+/**
+ * サイトマップXMLを解析
+ *
+ * playwright-cli で取得した場合はブラウザのXMLビューアがHTMLとして返すため、
+ * タグがエスケープされていればHTMLタグを除去してから解析する。
+ * @param xml サイトマップの内容
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+	const text = xml.includes("&lt;loc") ? decodeXmlEntities(xml.replace(/<[^>]*>/g, "")) : xml;
+
+	const locs: string[] = [];
+	for (const match of text.matchAll(/<loc>([\s\S]*?)<\/loc>/gi)) {
+		const loc = decodeXmlEntities(
+			match[1].replace(/^\s*<!\[CDATA\[/, "").replace(/\]\]>\s*$/, ""),
+		).trim();
+		if (loc) {
+			locs.push(loc);
+		}
+	}
+
+	return /<sitemapindex[\s>]/i.test(text)
+		? { urls: [], sitemaps: locs }
+		: { urls: locs, sitemaps: [] };
+}
+
+/**
+ * サイトマップからページURLを収集
+ *
+ * サイトマップインデックスは子サイトマップを辿る。取得・解析に失敗したサイトマップは読み飛ばす。
+ * 読み込むファイル数とURL数は SITEMAP_LIMITS で制限する。
+ * @param fetcher サイトマップの取得に使う Fetcher
+ * @param sitemapUrls 起点となるサイトマップのURL
+ * @returns ページURL（重複なし、出現順）
+ */
+export async function collectSitemapUrls(
+	fetcher: Fetcher,
+	sitemapUrls: string[],
+	logDebug?: (message: string, data?: unknown) => void,
+): Promise<string[]> {
+	const queue = [...new Set(sitemapUrls)];
+	const seenSitemaps = new Set(queue);
+	const pageUrls = new Set<string>();
+	let fetchedCount = 0;
+
+	while (queue.length > 0 && fetchedCount < SITEMAP_LIMITS.MAX_FILES) {
+		const sitemapUrl = queue.shift() as string;
+		fetchedCount++;
+
+		let content: string;
+		try {
+			const result = await fetcher.fetch(sitemapUrl);
+			if (!result) {
+				logDebug?.("Sitemap not available", { url: sitemapUrl });
+				continue;
+			}
+			content = result.html;
+		} catch (error) {
+			logDebug?.("Sitemap fetch failed", { url: sitemapUrl, error: String(error) });
+			continue;
+		}
+
+		const parsed = parseSitemap(content);
+		logDebug?.("Sitemap loaded", {
+			url: sitemapUrl,
+			urls: parsed.urls.length,
+			sitemaps: parsed.sitemaps.length,
+		});
+
+		for (const child of parsed.sitemaps) {
+			if (!seenSitemaps.has(child)) {
+				seenSitemaps.add(child);
+				queue.push(child);
+			}
+		}
+
+		for (const url of parsed.urls) {
+			if (pageUrls.size >= SITEMAP_LIMITS.MAX_URLS) {
+				logDebug?.("Sitemap URL limit reached", { limit: SITEMAP_LIMITS.MAX_URLS });
+				return Array.from(pageUrls);
+			}
+			pageUrls.add(url);
+		}
+	}
+
+	return Array.from(pageUrls);
+}
@@ -0,0 +1,66 @@
+import { JSDOM } from "jsdom";
+import { SPA_DETECTION } from "../constants.js";
+
+/** 本文として数えない要素 */
+const NON_CONTENT_SELECTOR = "script, style, noscript, template";
+
+/** 要素の可視テキストを空白を詰めて取得 */
+function getVisibleText(element: Element): string {
+	const clone = element.cloneNode(true) as Element;
+	for (const el of clone.querySelectorAll(NON_CONTENT_SELECTOR)) {
+		el.remove();
+	}
+	return (clone.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** body 直下がSPAのマウントポイント1つだけか判定 */
+function hasLoneMountPoint(body: HTMLElement): boolean {
+	const children = Array.from(body.children).filter((el) => !el.matches(NON_CONTENT_SELECTOR));
+	if (children.length !== 1) {
+		return false;
+	}
+	return SPA_DETECTION.MOUNT_POINT_SELECTORS.some((selector) => children[0].matches(selector));
+}
+
+/** JavaScript の有効化を求める noscript メッセージがあるか判定 */
+function hasNoscriptWarning(doc: Document): boolean {
+	return Array.from(doc.querySelectorAll("noscript")).some((el) =>
+		SPA_DETECTION.NOSCRIPT_MESSAGE.test(el.textContent ?? ""),
+	);
+}
+
+/**
+ * HTMLがJavaScriptで描画される前の空シェルか判定
+ *
+ * 以下のいずれかに該当する場合にシェルとみなす:
+ * - 本文がほとんどない
+ * - body 直下が #root / #__next 等のマウントポイント1つだけで、本文が少ない
+ * - noscript で JavaScript の有効化を求めており、本文が少ない
+ *
+ * @param html 判定対象のHTML
+ * @returns ブラウザでの再取得が必要であればtrue
+ */
+export function isJavaScriptShell(html: string): boolean {
+	const dom = new JSDOM(html);
+	try {
+		const doc = dom.window.document;
+		const body = doc.body;
+		if (!body) {
+			return true;
+		}
+
+		const textLength = getVisibleText(body).length;
+
+		if (textLength < SPA_DETECTION.MIN_TEXT_LENGTH) {
+			return true;
+		}
+
+		if (textLength < SPA_DETECTION.MAX_MOUNT_POINT_TEXT_LENGTH && hasLoneMountPoint(body)) {
+			return true;
+		}
+
+		return textLength < SPA_DETECTION.MAX_NOSCRIPT_TEXT_LENGTH && hasNoscriptWarning(doc);
+	} finally {
+		dom.window.close();
+	}
+}
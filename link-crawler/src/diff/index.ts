@@ -1 +1,2 @@
 export { computeHash, Hasher } from "./hasher.js";
+export { computeSimHash, hammingDistance, SimHashIndex } from "./simhash.js";
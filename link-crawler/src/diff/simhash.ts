@@ -0,0 +1,137 @@
+import { createHash } from "node:crypto";
+
+/** 1文字を1トークンとして扱う文字（分かち書きしない言語） */
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/** トークン: CJK は1文字ずつ、それ以外は英数字の連続 */
+const TOKEN =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}])+/gu;
+
+/** 特徴量に使う連続トークン数（シングル長） */
+const SHINGLE_SIZE = 3;
+
+/** 64bitフィンガープリント（上位32bit, 下位32bit） */
+type Fingerprint = [number, number];
+
+/** テキストを特徴量（連続トークンのシングル）に分割 */
+function extractFeatures(content: string): string[] {
+	const tokens = (content.toLowerCase().match(TOKEN) ?? []).filter(
+		(token) => CJK_CHAR.test(token) || token.length > 1 || /\p{N}/u.test(token),
+	);
+	if (tokens.length < SHINGLE_SIZE) {
+		return tokens;
+	}
+
+	const features: string[] = [];
+	for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+		features.push(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+	}
+	return features;
+}
+
+/**
+ * コンテンツのSimHash（64bit）を計算
+ *
+ * 連続トークンのシングルごとのハッシュをビット単位で投票して求める。
+ * 内容が少し違うだけのページ（バージョン表記やフッターの日付など）はハミング距離が小さくなる。
+ * @param content フィンガープリント計算対象の文字列（Markdown）
+ * @returns SimHash（16桁の16進数文字列）
+ */
+export function computeSimHash(content: string): string {
+	const votes = new Array<number>(64).fill(0);
+
+	for (const feature of extractFeatures(content)) {
+		const digest = createHash("md5").update(feature, "utf8").digest();
+		for (let bit = 0; bit < 64; bit++) {
+			const set = (digest[bit >> 3] >> (7 - (bit & 7))) & 1;
+			votes[bit] += set ? 1 : -1;
+		}
+	}
+
+	let hex = "";
+	for (let nibble = 0; nibble < 16; nibble++) {
+		let value = 0;
+		for (let bit = 0; bit < 4; bit++) {
+			value = (value << 1) | (votes[nibble * 4 + bit] > 0 ? 1 : 0);
+		}
+		hex += value.toString(16);
+	}
+	return hex;
+}
+
+/** 16進数文字列のSimHashを数値の組に変換（不正な形式はnull） */
+function parseFingerprint(simhash: string): Fingerprint | null {
+	if (!/^[0-9a-f]{16}$/i.test(simhash)) {
+		return null;
+	}
+	return [Number.parseInt(simhash.slice(0, 8), 16), Number.parseInt(simhash.slice(8), 16)];
+}
+
+/** 32bit整数の立っているビット数 */
+function popcount32(value: number): number {
+	let v = value - ((value >>> 1) & 0x55555555);
+	v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+	return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function distance(a: Fingerprint, b: Fingerprint): number {
+	return popcount32((a[0] ^ b[0]) >>> 0) + popcount32((a[1] ^ b[1]) >>> 0);
+}
+
+/**
+ * 2つのSimHashのハミング距離
+ * @returns 異なるビット数（0〜64、形式が不正な場合は Infinity）
+ */
+export function hammingDistance(a: string, b: string): number {
+	const fa = parseFingerprint(a);
+	const fb = parseFingerprint(b);
+	return fa && fb ? distance(fa, fb) : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * SimHashの近傍検索用インデックス
+ * 登録順に走査し、最も距離の小さい項目（同距離なら先に登録した項目）を返す
+ */
+export class SimHashIndex<T> {
+	private entries: { fingerprint: Fingerprint; item: T }[] = [];
+
+	/** 登録数 */
+	get size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * 項目を登録（形式が不正なSimHashは無視）
+	 */
+	add(simhash: string, item: T): void {
+		const fingerprint = parseFingerprint(simhash);
+		if (fingerprint) {
+			this.entries.push({ fingerprint, item });
+		}
+	}
+
+	/**
+	 * 最も近い項目を検索
+	 * @param simhash 検索するSimHash
+	 * @param maxDistance 許容するハミング距離
+	 * @returns 距離が maxDistance 以下の最も近い項目（なければundefined）
+	 */
+	findNearest(simhash: string, maxDistance: number): { item: T; distance: number } | undefined {
+		const fingerprint = parseFingerprint(simhash);
+		if (!fingerprint) {
+			return undefined;
+		}
+
+		let nearest: { item: T; distance: number } | undefined;
+		for (const entry of this.entries) {
+			const d = distance(fingerprint, entry.fingerprint);
+			if (d <= maxDistance && (!nearest || d < nearest.distance)) {
+				nearest = { item: entry.item, distance: d };
+				if (d === 0) {
+					break;
+				}
+			}
+		}
+		return nearest;
+	}
+}
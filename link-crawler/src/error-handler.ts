@@ -1,5 +1,12 @@
 import { EXIT_CODES } from "./constants.js";
-import { ConfigError, CrawlError, DependencyError, FetchError, TimeoutError } from "./errors.js";
+import {
+	AuthError,
+	ConfigError,
+	CrawlError,
+	DependencyError,
+	FetchError,
+	TimeoutError,
+} from "./errors.js";
 
 export interface ErrorHandlerResult {
 	message: string;
@@ -27,6 +34,13 @@ export function handleError(error: unknown): ErrorHandlerResult {
 		};
 	}
 
+	if (error instanceof AuthError) {
+		return {
+			message: `✗ Authentication error at ${error.url}: ${error.message}`,
+			exitCode: EXIT_CODES.AUTH_ERROR,
+		};
+	}
+
 	if (error instanceof FetchError) {
 		return {
 			message: `✗ Fetch error at ${error.url}: ${error.message}`,
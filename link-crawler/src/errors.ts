@@ -35,6 +35,30 @@ export class FetchError extends CrawlError {
 	}
 }
 
+/** HTTPステータスによるフェッチエラー（再試行の対象になる 408・429・5xx） */
+export class HttpStatusError extends FetchError {
+	constructor(
+		url: string,
+		public readonly status: number,
+		/** Retry-After ヘッダーが示す待機時間(ms)、ヘッダーがない場合はnull */
+		public readonly retryAfterMs: number | null = null,
+	) {
+		super(`HTTP ${status}`, url);
+		this.name = "HttpStatusError";
+	}
+}
+
+/** 認証エラー（ログインページへのリダイレクト、ログインスクリプトの失敗） */
+export class AuthError extends CrawlError {
+	constructor(
+		message: string,
+		public readonly url: string,
+	) {
+		super(message, "AUTH_ERROR");
+		this.name = "AuthError";
+	}
+}
+
 /** 設定関連エラー */
 export class ConfigError extends CrawlError {
 	constructor(
@@ -1,7 +1,18 @@
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { FILENAME } from "../constants.js";
-import type { CrawledPage, CrawlResult, Logger, PageMetadata } from "../types.js";
+import { SimHashIndex } from "../diff/simhash.js";
+import type {
+	CacheValidators,
+	CrawledPage,
+	CrawledPageExtras,
+	CrawlResult,
+	CrawlScope,
+	FailedPage,
+	Logger,
+	PageMetadata,
+	SkippedPage,
+} from "../types.js";
 
 /**
  * CrawlResult型の型ガード関数
@@ -25,7 +36,19 @@ export class IndexManager {
 	private result: CrawlResult;
 	/** 既存のページ情報（URL→CrawledPage） */
 	private existingPages: Map<string, CrawledPage> = new Map();
+	/** 既存の仕様ファイル情報（--resume時の復元用） */
+	private existingSpecs: CrawlResult["specs"] = [];
+	/** 既存の保存しなかったページ（--resume時の復元用） */
+	private existingSkipped: SkippedPage[] = [];
+	/** 既存の取得に失敗したページ（--resume時の復元用） */
+	private existingFailed: FailedPage[] = [];
 	private pageCount = 0;
+	/** ハッシュ → そのコンテンツで最初に保存したページ（重複コンテンツのエイリアス判定用） */
+	private pagesByHash = new Map<string, CrawledPage>();
+	/** SimHash を持つページ（類似コンテンツのエイリアス判定用） */
+	private pagesBySimHash = new SimHashIndex<CrawledPage>();
+	/** 今回のクロールでエイリアスとして記録したURL */
+	private aliasUrls = new Set<string>();
 	/** 訪問済みURL（差分クロール時のマージ範囲制限用） */
 	private visitedUrls: Set<string> | null = null;
 	/** マージ済みフラグ（saveIndex複数回呼び出し対策） */
@@ -34,7 +57,7 @@ export class IndexManager {
 	constructor(
 		private outputDir: string,
 		private baseUrl: string,
-		private config: { maxDepth: number; sameDomain: boolean; diff?: boolean },
+		private config: { maxDepth: number; scope: CrawlScope; diff?: boolean; seeds?: string[] },
 		private logger?: Logger,
 	) {
 		// 既存のindex.jsonを読み込み
@@ -43,9 +66,10 @@ export class IndexManager {
 		this.result = {
 			crawledAt: new Date().toISOString(),
 			baseUrl: this.baseUrl,
+			seeds: this.config.seeds ?? [this.baseUrl],
 			config: {
 				maxDepth: this.config.maxDepth,
-				sameDomain: this.config.sameDomain,
+				scope: this.config.scope,
 			},
 			totalPages: 0,
 			pages: [],
@@ -71,6 +95,9 @@ export class IndexManager {
 				for (const page of parsed.pages) {
 					this.existingPages.set(page.url, page);
 				}
+				this.existingSpecs = Array.isArray(parsed.specs) ? parsed.specs : [];
+				this.existingSkipped = Array.isArray(parsed.skipped) ? parsed.skipped : [];
+				this.existingFailed = Array.isArray(parsed.failed) ? parsed.failed : [];
 			} else {
 				this.logger?.logIndexFormatError(indexPath);
 			}
@@ -93,6 +120,14 @@ export class IndexManager {
 		return hashes;
 	}
 
+	/**
+	 * 前回の index.json のページ情報を取得
+	 * @returns 前回保存したページ（前回のクロールになかったURLはundefined）
+	 */
+	getExistingPage(url: string): CrawledPage | undefined {
+		return this.existingPages.get(url);
+	}
+
 	/**
 	 * 次のページ番号を取得
 	 */
@@ -102,6 +137,7 @@ export class IndexManager {
 
 	/**
 	 * ページを登録（インデックスに追加）
+	 * @param extras 取得元 Fetcher などの付加情報
 	 * @returns 登録されたページ情報
 	 */
 	registerPage(
@@ -112,6 +148,7 @@ export class IndexManager {
 		metadata: PageMetadata,
 		title: string | null,
 		hash: string,
+		extras: CrawledPageExtras = {},
 	): CrawledPage {
 		this.pageCount++;
 		const pageCrawledAt = new Date().toISOString();
@@ -124,11 +161,116 @@ export class IndexManager {
 			metadata,
 			hash,
 			crawledAt: pageCrawledAt,
+			...extras,
 		};
 		this.result.pages.push(page);
+		this.indexPage(page);
 		return page;
 	}
 
+	/**
+	 * 同じコンテンツのページを取得
+	 * @param hash コンテンツのハッシュ
+	 * @returns 今回のクロールで保存済み（差分クロールで変更なしのページを含む）のページ
+	 */
+	findPageByHash(hash: string): CrawledPage | undefined {
+		return this.pagesByHash.get(hash);
+	}
+
+	/**
+	 * 類似コンテンツのページを取得
+	 * @param simhash コンテンツの SimHash
+	 * @param maxDistance 類似とみなすハミング距離の上限
+	 * @returns 最も近い保存済みページとハミング距離
+	 */
+	findSimilarPage(
+		simhash: string,
+		maxDistance: number,
+	): { page: CrawledPage; distance: number } | undefined {
+		const nearest = this.pagesBySimHash.findNearest(simhash, maxDistance);
+		return nearest && { page: nearest.item, distance: nearest.distance };
+	}
+
+	/**
+	 * 保存済みページにエイリアスURLを追加
+	 * @param page 同じコンテンツの保存済みページ
+	 * @param url ファイルを保存しない別のURL
+	 */
+	addAlias(page: CrawledPage, url: string): void {
+		if (page.url === url || page.aliases?.includes(url)) {
+			return;
+		}
+		page.aliases = [...(page.aliases ?? []), url];
+		this.aliasUrls.add(url);
+	}
+
+	/**
+	 * 差分クロールで変更なしとしてスキップした既存ページをエイリアス判定の対象にする
+	 * 前回のエイリアスは破棄し、今回のクロールで見つかったものだけを記録する
+	 * @param url スキップしたページのURL
+	 * @param simhash 今回取得したコンテンツの SimHash（前回の index.json に無い場合に補う）
+	 * @param validators 今回のレスポンスの ETag・Last-Modified（指定した場合は置き換える）
+	 */
+	markUnchanged(url: string, simhash?: string, validators?: CacheValidators): void {
+		const page = this.existingPages.get(url);
+		if (page) {
+			page.aliases = undefined;
+			if (simhash) {
+				page.simhash = simhash;
+			}
+			if (validators) {
+				page.etag = validators.etag;
+				page.lastModified = validators.lastModified;
+			}
+			this.indexPage(page);
+		}
+	}
+
+	/** ハッシュ・SimHash → ページの対応を登録（先に登録したページを優先） */
+	private indexPage(page: CrawledPage): void {
+		if (page.hash && !this.pagesByHash.has(page.hash)) {
+			this.pagesByHash.set(page.hash, page);
+		}
+		if (page.simhash) {
+			this.pagesBySimHash.add(page.simhash, page);
+		}
+	}
+
+	/**
+	 * 中断したクロールの登録済みページを結果に復元（--resume用）
+	 * 以降のページ番号は復元したページ数の続きから採番する
+	 * @param urls 中断時点で訪問済みのURL
+	 * @returns 復元したページ数
+	 */
+	restorePages(urls: Set<string>): number {
+		for (const page of this.existingPages.values()) {
+			if (urls.has(page.url)) {
+				this.result.pages.push(page);
+				this.indexPage(page);
+				for (const alias of page.aliases ?? []) {
+					this.aliasUrls.add(alias);
+				}
+			}
+		}
+		for (const spec of this.existingSpecs) {
+			if (urls.has(spec.url)) {
+				this.result.specs.push(spec);
+			}
+		}
+		for (const skipped of this.existingSkipped) {
+			if (urls.has(skipped.url)) {
+				this.addSkipped(skipped.url, skipped.reason);
+			}
+		}
+		for (const failed of this.existingFailed) {
+			if (urls.has(failed.url)) {
+				this.addFailed(failed.url, failed.reason, failed.attempts);
+			}
+		}
+		this.pageCount = this.result.pages.length;
+		return this.pageCount;
+	}
+
 	/**
 	 * 仕様ファイルを追加
 	 */
@@ -136,6 +278,29 @@ export class IndexManager {
 		this.result.specs.push({ url, type, file });
 	}
 
+	/**
+	 * 取得したが保存しなかったページを記録（noindex など）
+	 * @param reason 保存しなかった理由
+	 */
+	addSkipped(url: string, reason: string): void {
+		if (!this.result.skipped) {
+			this.result.skipped = [];
+		}
+		this.result.skipped.push({ url, reason });
+	}
+
+	/**
+	 * 再試行しても取得できなかったページを記録
+	 * @param reason 最後の失敗の理由
+	 * @param attempts 試行回数（初回を含む）
+	 */
+	addFailed(url: string, reason: string, attempts: number): void {
+		if (!this.result.failed) {
+			this.result.failed = [];
+		}
+		this.result.failed.push({ url, reason, attempts });
+	}
+
 	/**
 	 * 訪問済みURLを設定（差分クロール時のマージ範囲制限用）
 	 * @param urls 訪問済みURLのSet
@@ -156,10 +321,12 @@ export class IndexManager {
 
 		// O(1)の重複チェックのためSetを使用
 		const registeredUrls = new Set(this.result.pages.map((p) => p.url));
+		const skippedUrls = new Set(this.result.skipped?.map((p) => p.url));
 
 		for (const [url, page] of this.existingPages) {
-			// 既に登録済みのページはスキップ
-			if (registeredUrls.has(url)) {
+			// 既に登録済みのページ、今回エイリアスになったURL（同じ内容のページとして記録済み）、
+			// 今回保存しなかったURL（noindex など）はスキップ
+			if (registeredUrls.has(url) || this.aliasUrls.has(url) || skippedUrls.has(url)) {
 				continue;
 			}
 
@@ -191,6 +358,29 @@ export class IndexManager {
 		return indexPath;
 	}
 
+	/**
+	 * 途中経過のインデックスを保存（チェックポイント用）
+	 * 差分モードでも既存ページのマージ状態を変更せず、未訪問の既存ページも残す
+	 * @returns 保存したファイルパス
+	 */
+	saveProgress(): string {
+		const registeredUrls = new Set(this.result.pages.map((p) => p.url));
+		const pages =
+			this.config.diff && !this.mergedAlready
+				? [
+						...this.result.pages,
+						...[...this.existingPages.values()].filter((p) => !registeredUrls.has(p.url)),
+					]
+				: this.result.pages;
+
+		const indexPath = join(this.outputDir, FILENAME.INDEX_JSON);
+		writeFileSync(
+			indexPath,
+			JSON.stringify({ ...this.result, totalPages: pages.length, pages }, null, 2),
+		);
+		return indexPath;
+	}
+
 	/**
 	 * 結果を取得
 	 */
@@ -41,14 +41,21 @@ export class Merger {
 
 	/**
 	 * Markdownを結合してfull.md内容を生成（ファイル書き込みなし）
+	 * 他のページのエイリアス（同じコンテンツの別URL）として記録されたページは含めない
 	 * @param pages クロール済みページ一覧
 	 * @param pageContents ページ内容のMap (file -> markdown)
 	 * @returns 結合されたMarkdown文字列
 	 */
 	buildFullContent(pages: CrawledPage[], pageContents: Map<string, string>): string {
 		const sections: string[] = [];
+		const aliasUrls = new Set(pages.flatMap((page) => page.aliases ?? []));
 
 		for (const page of pages) {
+			if (aliasUrls.has(page.url)) {
+				this.logger?.logDebug("Skipping alias page", { url: page.url });
+				continue;
+			}
+
 			const title = page.title || page.url;
 			const header = `# ${title}`;
 			const urlLine = `> Source: ${page.url}`;
@@ -2,7 +2,13 @@ import { existsSync, mkdirSync, renameSync, rmSync, writeFileSync } from "node:f
 import { dirname, join } from "node:path";
 import { FILENAME, SPEC_PATTERNS } from "../constants.js";
 import { computeHash } from "../diff/index.js";
-import type { CrawlConfig, CrawledPage, Logger, PageMetadata } from "../types.js";
+import type {
+	CrawlConfig,
+	CrawledPage,
+	CrawledPageExtras,
+	Logger,
+	PageMetadata,
+} from "../types.js";
 import { IndexManager } from "./index-manager.js";
 
 /** 文字列をslug形式に変換（小文字化、スペース→ハイフン、特殊文字除去） */
@@ -49,14 +55,22 @@ export class OutputWriter {
 	private finalOutputDir: string;
 	private workingOutputDir: string;
 
+	/**
+	 * @param resumeDir 再開するクロールの出力ディレクトリ（--resume時、チェックポイントのある場所）
+	 */
 	constructor(
 		config: CrawlConfig,
 		private logger?: Logger,
+		resumeDir: string | null = null,
 	) {
 		this.finalOutputDir = config.outputDir;
 
-		// 非diffモード: 一時ディレクトリを使用して原子性を確保
-		if (!config.diff) {
+		if (resumeDir) {
+			// 再開時: 中断したクロールの出力を引き継ぐ（残っていた一時ディレクトリは完了時に確定）
+			this.tempOutputDir = resumeDir === config.outputDir ? null : resumeDir;
+			this.workingOutputDir = resumeDir;
+		} else if (!config.diff) {
+			// 非diffモード: 一時ディレクトリを使用して原子性を確保
 			this.tempOutputDir = `${config.outputDir}.tmp-${Date.now()}-${process.pid}`;
 			this.workingOutputDir = this.tempOutputDir;
 		} else {
@@ -68,8 +82,9 @@ export class OutputWriter {
 			config.startUrl,
 			{
 				maxDepth: config.maxDepth,
-				sameDomain: config.sameDomain,
+				scope: config.scope,
 				diff: config.diff,
+				seeds: config.seeds,
 			},
 			this.logger,
 		);
@@ -129,8 +144,9 @@ export class OutputWriter {
 		metadata: PageMetadata,
 		title: string | null,
 		hash: string,
+		extras: CrawledPageExtras = {},
 	): CrawledPage {
-		return this.indexManager.registerPage(url, file, depth, links, metadata, title, hash);
+		return this.indexManager.registerPage(url, file, depth, links, metadata, title, hash, extras);
 	}
 
 	/** ページを保存 */
@@ -142,6 +158,7 @@ export class OutputWriter {
 		metadata: PageMetadata,
 		title: string | null,
 		hash?: string,
+		extras: CrawledPageExtras = {},
 	): string {
 		const pageFile = this.buildPageFilename(url, metadata, title);
 		const pagePath = join(this.workingOutputDir, pageFile);
@@ -150,7 +167,7 @@ export class OutputWriter {
 		const frontmatter = this.buildFrontmatter(url, metadata, title, depth, computedHash);
 		writeFileSync(pagePath, frontmatter + markdown);
 
-		this.registerPage(url, pageFile, depth, links, metadata, title, computedHash);
+		this.registerPage(url, pageFile, depth, links, metadata, title, computedHash, extras);
 
 		return pageFile;
 	}
@@ -0,0 +1,81 @@
+import type { JSDOM } from "jsdom";
+import type { UrlPolicy } from "../types.js";
+
+/** 末尾の index.html / index.htm */
+const INDEX_FILE = /\/index\.html?$/i;
+
+/** 最後のパスセグメントに拡張子があるか（ファイルとみなすパス） */
+const FILE_SEGMENT = /\/[^/]*\.[^/]*$/;
+
+/**
+ * クエリパラメータ名がパターンに一致するか
+ * @param patterns パラメータ名（末尾の * は前方一致）
+ */
+function matchesParam(name: string, patterns: readonly string[]): boolean {
+	return patterns.some((pattern) =>
+		pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern,
+	);
+}
+
+/**
+ * URLを正規化ポリシーに従って書き換える
+ *
+ * ホスト名の小文字化と既定ポートの除去は URL クラスが行う。
+ * クエリは変更がある場合のみ組み立て直す（エンコードの揺れで別URLにしないため）。
+ * @param url 書き換えるURL（フラグメントは除去済みであること）
+ * @param policy URL正規化ポリシー
+ */
+export function applyUrlPolicy(url: URL, policy: UrlPolicy): void {
+	if (url.search) {
+		const params = [...new URLSearchParams(url.search)];
+		const kept = params.filter(([name]) =>
+			policy.keepParams !== null
+				? matchesParam(name, policy.keepParams)
+				: !matchesParam(name, policy.dropParams),
+		);
+		if (policy.sortQuery) {
+			// 同じキーの値は元の順序を保つ（Array.prototype.sort は安定ソート）
+			kept.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		}
+		if (kept.length !== params.length || kept.some((entry, i) => entry !== params[i])) {
+			url.search = new URLSearchParams(kept).toString();
+		}
+	}
+
+	if (policy.collapseIndex && INDEX_FILE.test(url.pathname)) {
+		url.pathname = url.pathname.replace(INDEX_FILE, "/");
+	}
+
+	if (policy.trailingSlash === "strip" && url.pathname.length > 1) {
+		url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+	} else if (
+		policy.trailingSlash === "add" &&
+		!url.pathname.endsWith("/") &&
+		!FILE_SEGMENT.test(url.pathname)
+	) {
+		url.pathname = `${url.pathname}/`;
+	}
+}
+
+/**
+ * ページの <link rel="canonical"> を取得
+ * @returns 絶対URL（http/https 以外や指定がない場合はnull）
+ */
+export function extractCanonicalLink(dom: JSDOM): string | null {
+	const links = dom.window.document.querySelectorAll("link[rel][href]");
+
+	for (const link of links) {
+		const rel = (link.getAttribute("rel") ?? "").toLowerCase().split(/\s+/);
+		if (!rel.includes("canonical")) {
+			continue;
+		}
+		try {
+			const href = new URL(link.getAttribute("href") ?? "", dom.window.location.href);
+			return ["http:", "https:"].includes(href.protocol) ? href.href : null;
+		} catch {
+			return null;
+		}
+	}
+
+	return null;
+}
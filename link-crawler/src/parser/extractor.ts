@@ -156,6 +156,11 @@ export function extractMetadata(dom: JSDOM): PageMetadata {
 		author: getMeta("author"),
 		ogTitle: getMeta("og:title"),
 		ogType: getMeta("og:type"),
+		robots:
+			Array.from(doc.querySelectorAll('meta[name="robots" i]'))
+				.map((el) => el.getAttribute("content")?.trim())
+				.filter(Boolean)
+				.join(", ") || null,
 	};
 }
 
@@ -1,38 +1,151 @@
 import type { JSDOM } from "jsdom";
-import type { CrawlConfig } from "../types.js";
+import { getDomain } from "tldts";
+import type { CrawlConfig, CrawlScope, UrlMatcher, UrlPolicy } from "../types.js";
+import { matchGlob } from "../utils/glob.js";
+import { applyUrlPolicy } from "./canonical.js";
 
 /** バイナリ・非HTMLファイルの拡張子パターン */
 const SKIP_EXTENSIONS =
 	/\.(png|jpg|jpeg|gif|svg|ico|webp|avif|bmp|tiff|pdf|zip|tar|gz|rar|7z|bz2|xz|mp4|mp3|webm|ogg|avi|mov|woff|woff2|ttf|eot|otf|css|js|mjs|map|wasm|doc|docx|xls|xlsx|ppt|pptx)$/i;
 
-/** URL を正規化 */
-export function normalizeUrl(url: string, baseUrl: string): string | null {
+/**
+ * URL を正規化
+ * @param policy URL正規化ポリシー（省略時はフラグメントの除去のみ）
+ */
+export function normalizeUrl(url: string, baseUrl: string, policy?: UrlPolicy): string | null {
 	try {
 		const parsed = new URL(url, baseUrl);
 		parsed.hash = "";
+		if (policy) {
+			applyUrlPolicy(parsed, policy);
+		}
 		return parsed.href;
 	} catch {
 		return null;
 	}
 }
 
-/** 同一ドメインかチェック */
-export function isSameDomain(url: string, baseUrl: string): boolean {
+/**
+ * 登録可能ドメイン（example.com, example.co.jp など）を取得
+ * Public Suffix List で判定し、github.io・vercel.app などの共有ホスティングのドメインも
+ * 公開サフィックスとして扱う（user.github.io は別々のサイト）。
+ * IPアドレスや単一ラベルのホストはそのまま返す
+ */
+function getRegistrableDomain(hostname: string): string {
+	return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname;
+}
+
+/**
+ * スコープの基準パス（このパス以下のURLを対象とする）
+ * 末尾がファイル名（拡張子あり）ならそのディレクトリ、それ以外はパス自体をディレクトリとみなす
+ */
+function getScopePrefix(pathname: string): string {
+	if (pathname.endsWith("/")) {
+		return pathname;
+	}
+	const lastSegment = pathname.slice(pathname.lastIndexOf("/") + 1);
+	return lastSegment.includes(".")
+		? pathname.slice(0, pathname.length - lastSegment.length)
+		: `${pathname}/`;
+}
+
+/**
+ * 基準URLから見てクロール範囲内かチェック
+ * @param scope prefix: 同じホストで基準URLのパス以下、host: 同じホスト、
+ *   domain: 同じ登録可能ドメイン（サブドメインを含む）、any: 制限なし
+ */
+export function isSameDomain(url: string, baseUrl: string, scope: CrawlScope = "host"): boolean {
+	try {
+		const target = new URL(url);
+		const base = new URL(baseUrl);
+		switch (scope) {
+			case "any":
+				return true;
+			case "domain":
+				return getRegistrableDomain(target.hostname) === getRegistrableDomain(base.hostname);
+			case "prefix": {
+				if (target.hostname !== base.hostname) {
+					return false;
+				}
+				const prefix = getScopePrefix(base.pathname);
+				return target.pathname.startsWith(prefix) || `${target.pathname}/` === prefix;
+			}
+			default:
+				return target.hostname === base.hostname;
+		}
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * URLのホストが --allow-host の許可ホストに一致するか
+ * @param patterns 許可ホスト（小文字）。"*.example.com" はサブドメインに一致する（example.com 自体は含まない）
+ */
+export function isAllowedHost(url: string, patterns: string[]): boolean {
+	if (patterns.length === 0) {
+		return false;
+	}
+	let hostname: string;
 	try {
-		const urlHost = new URL(url).hostname;
-		const baseHost = new URL(baseUrl).hostname;
-		return urlHost === baseHost;
+		hostname = new URL(url).hostname;
 	} catch {
 		return false;
 	}
+	return patterns.some((pattern) =>
+		pattern.startsWith("*.") ? hostname.endsWith(pattern.slice(1)) : hostname === pattern,
+	);
 }
 
-/** クロール対象かどうか判定 */
-export function shouldCrawl(url: string, visited: Set<string>, config: CrawlConfig): boolean {
+/** URLがフィルタルールに一致するか（regex は URL全体、glob はパスで判定） */
+function matchesRule(url: string, matcher: UrlMatcher): boolean {
+	if (matcher.type === "regex") {
+		return matcher.regex.test(url);
+	}
+	try {
+		return matchGlob(matcher.segments, new URL(url).pathname);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * include/exclude ルールでURLが除外されるか判定
+ * @returns 除外の理由となったルール（除外されない場合はnull）
+ */
+export function findExcludingRule(url: string, config: CrawlConfig): string | null {
+	if (
+		config.includeMatchers.length > 0 &&
+		!config.includeMatchers.some((matcher) => matchesRule(url, matcher))
+	) {
+		return "no include rule matched";
+	}
+	return config.excludeMatchers.find((matcher) => matchesRule(url, matcher))?.rule ?? null;
+}
+
+/**
+ * クロール対象かどうか判定
+ * @param onFiltered include/exclude ルールで除外したURLとその理由を受け取るコールバック
+ */
+export function shouldCrawl(
+	url: string,
+	visited: Set<string>,
+	config: CrawlConfig,
+	onFiltered?: (url: string, rule: string) => void,
+): boolean {
 	if (visited.has(url)) return false;
-	if (config.sameDomain && !isSameDomain(url, config.startUrl)) return false;
-	if (config.includePattern && !config.includePattern.test(url)) return false;
-	if (config.excludePattern?.test(url)) return false;
+	if (
+		!config.seeds.some((seed) => isSameDomain(url, seed, config.scope)) &&
+		!isAllowedHost(url, config.allowedHosts)
+	) {
+		return false;
+	}
+
+	const excludedBy = findExcludingRule(url, config);
+	if (excludedBy) {
+		onFiltered?.(url, excludedBy);
+		return false;
+	}
 
 	// バイナリファイルを除外
 	if (SKIP_EXTENSIONS.test(url)) return false;
@@ -40,8 +153,16 @@ export function shouldCrawl(url: string, visited: Set<string>, config: CrawlConf
 	return true;
 }
 
-/** HTML からリンクを抽出（JSDOMインスタンスを使用） */
-export function extractLinks(dom: JSDOM, visited: Set<string>, config: CrawlConfig): string[] {
+/**
+ * HTML からリンクを抽出（JSDOMインスタンスを使用）
+ * @param onFiltered include/exclude ルールで除外したURLとその理由を受け取るコールバック
+ */
+export function extractLinks(
+	dom: JSDOM,
+	visited: Set<string>,
+	config: CrawlConfig,
+	onFiltered?: (url: string, rule: string) => void,
+): string[] {
 	const baseUrl = dom.window.location.href;
 	const links = new Set<string>();
 	const anchors = dom.window.document.querySelectorAll("a[href]");
@@ -62,8 +183,16 @@ export function extractLinks(dom: JSDOM, visited: Set<string>, config: CrawlConf
 			continue;
 		}
 
-		const normalized = normalizeUrl(href, baseUrl);
-		if (normalized && shouldCrawl(normalized, visited, config)) {
+		// rel="nofollow" のリンクは辿らない（--no-meta-robots 時を除く）
+		if (
+			config.respectMetaRobots &&
+			anchor.getAttribute("rel")?.toLowerCase().split(/\s+/).includes("nofollow")
+		) {
+			continue;
+		}
+
+		const normalized = normalizeUrl(href, baseUrl, config.urlPolicy);
+		if (normalized && shouldCrawl(normalized, visited, config, onFiltered)) {
 			links.add(normalized);
 		}
 	}
@@ -0,0 +1,58 @@
+/** meta robots / X-Robots-Tag のディレクティブ */
+export interface RobotsDirectives {
+	/** ページを保存しない */
+	noindex: boolean;
+	/** ページのリンクを辿らない */
+	nofollow: boolean;
+}
+
+/** 値を伴うディレクティブ（"max-snippet: 20" など。User-Agent の指定と区別する） */
+const VALUED_DIRECTIVES = new Set([
+	"max-snippet",
+	"max-image-preview",
+	"max-video-preview",
+	"unavailable_after",
+]);
+
+/**
+ * meta robots の content 属性や X-Robots-Tag ヘッダーの値を解釈
+ *
+ * X-Robots-Tag の "googlebot: noindex" のように User-Agent を指定したディレクティブは、
+ * userAgent に前方一致する場合のみ適用する（指定のないディレクティブは全 User-Agent に適用）。
+ * "none" は noindex, nofollow と同じ。
+ * @param values ディレクティブの値（カンマ区切り、null・undefined は無視）
+ * @param userAgent クローラーの User-Agent トークン
+ */
+export function parseRobotsDirectives(
+	values: (string | null | undefined)[],
+	userAgent = "link-crawler",
+): RobotsDirectives {
+	const directives: RobotsDirectives = { noindex: false, nofollow: false };
+	const agent = userAgent.toLowerCase();
+
+	for (const value of values) {
+		if (!value) {
+			continue;
+		}
+		// User-Agent 指定はカンマ区切りの後続のディレクティブにも適用される
+		let targetAgent: string | null = null;
+		for (const part of value.toLowerCase().split(",")) {
+			let token = part.trim();
+			const prefix = token.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/);
+			if (prefix && !VALUED_DIRECTIVES.has(prefix[1])) {
+				targetAgent = prefix[1];
+				token = prefix[2].trim();
+			}
+			if (targetAgent !== null && !agent.startsWith(targetAgent)) {
+				continue;
+			}
+			if (token === "noindex" || token === "none") {
+				directives.noindex = true;
+			}
+			if (token === "nofollow" || token === "none") {
+				directives.nofollow = true;
+			}
+		}
+	}
+	return directives;
+}
@@ -1,19 +1,98 @@
+/** ページを実際に取得した Fetcher */
+export type FetcherName = "http" | "playwright";
+
+/** Fetcher の種類（auto は HTTP で取得し、JavaScript シェルの場合のみ playwright に切り替える） */
+export type FetcherType = FetcherName | "auto";
+
+/** クロール順序（bfs: 幅優先、dfs: 深さ優先） */
+export type CrawlStrategy = "bfs" | "dfs";
+
+/** クロール範囲（prefix: 開始URLのパス以下、host: 同じホスト、domain: サブドメインを含む同じドメイン、any: 制限なし） */
+export type CrawlScope = "prefix" | "host" | "domain" | "any";
+
+/** サイトマップの利用方法（seed: 開始URLに追加、only: サイトマップのURLのみ、off: 使わない） */
+export type SitemapMode = "seed" | "only" | "off";
+
+/** URL末尾のスラッシュの扱い（keep: そのまま、strip: 除去、add: 拡張子のないパスに付与） */
+export type TrailingSlashMode = "keep" | "strip" | "add";
+
+/** 重複コンテンツの検出方法（exact: ハッシュ一致、near: SimHash による類似判定も行う、off: 検出しない） */
+export type DedupeMode = "exact" | "near" | "off";
+
+/** URL正規化ポリシー */
+export interface UrlPolicy {
+	/** 除去するクエリパラメータ名（末尾の * は前方一致） */
+	dropParams: string[];
+	/** 残すクエリパラメータ名（nullは制限なし、指定時はそれ以外を除去し dropParams は使わない） */
+	keepParams: string[] | null;
+	/** クエリパラメータをキー順に並べ替える */
+	sortQuery: boolean;
+	/** URL末尾のスラッシュの扱い */
+	trailingSlash: TrailingSlashMode;
+	/** 末尾の index.html をディレクトリURLにまとめる */
+	collapseIndex: boolean;
+	/** ページの <link rel="canonical"> に従う */
+	honorCanonical: boolean;
+}
+
+/**
+ * URLフィルタのルール（--include / --exclude などをコンパイルしたもの）
+ * regex は URL全体を正規表現で、glob はパスを compileGlob の結果で判定する。
+ * pattern は指定されたパターン、rule は表示名（指定元とパターン、デバッグログ用）
+ */
+export type UrlMatcher =
+	| { type: "regex"; pattern: string; regex: RegExp; rule: string }
+	| { type: "glob"; pattern: string; segments: string[]; rule: string };
+
+/** リクエストに付与する Cookie（--cookie / --cookies-file） */
+export interface RequestCookie {
+	name: string;
+	value: string;
+	/** ドメイン（先頭が "." ならサブドメインにも送る） */
+	domain: string;
+	path: string;
+	/** HTTPS のリクエストにのみ送る */
+	secure: boolean;
+}
+
+/** ページを開いた後の待機条件（--wait-for、--wait を上限として待つ） */
+export type WaitCondition =
+	| { type: "selector"; selector: string }
+	| { type: "networkidle" }
+	| { type: "text"; text: string };
+
 /** クロール設定 */
 export interface CrawlConfig {
+	/** 最初のシードURL（出力ディレクトリ名の基準） */
 	startUrl: string;
+	/** クロールを開始するURL（startUrl を含む、重複なし） */
+	seeds: string[];
 	maxDepth: number;
 	/** 最大クロールページ数（nullは無制限） */
 	maxPages: number | null;
 	outputDir: string;
-	sameDomain: boolean;
-	includePattern: RegExp | null;
-	excludePattern: RegExp | null;
+	/** リンクを辿る範囲（いずれかのシードURLを基準に判定） */
+	scope: CrawlScope;
+	/** スコープ外でもクロール対象にするホスト（小文字、"*.example.com" はサブドメインに一致） */
+	allowedHosts: string[];
+	/** いずれかに一致するURLのみ対象にする（空なら制限なし） */
+	includeMatchers: UrlMatcher[];
+	/** いずれかに一致するURLを除外する */
+	excludeMatchers: UrlMatcher[];
 	/** リクエスト間隔（ミリ秒） */
 	delay: number;
 	/** リクエストタイムアウト（ミリ秒） */
 	timeout: number;
-	/** SPAページ待機時間（ミリ秒） */
+	/** タイムアウト・5xx・429 などの一時的なフェッチ失敗の再試行回数 */
+	retries: number;
+	/** ホストへのリクエストを止めるまでの連続失敗回数（0で無効） */
+	breakerThreshold: number;
+	/** 連続失敗でホストへのリクエストを止める時間（ミリ秒） */
+	breakerCooldown: number;
+	/** SPAページ待機時間（ミリ秒、waitFor 指定時は待機の上限） */
 	spaWait: number;
+	/** レンダリング完了の待機条件（nullは spaWait だけ待つ） */
+	waitFor: WaitCondition | null;
 	headed: boolean;
 	diff: boolean;
 	pages: boolean;
@@ -22,6 +101,48 @@ export interface CrawlConfig {
 	keepSession: boolean;
 	/** robots.txt を尊重するか（デフォルト: true） */
 	respectRobots: boolean;
+	/** meta robots・X-Robots-Tag・rel="nofollow" を尊重するか（デフォルト: true） */
+	respectMetaRobots: boolean;
+	/** ページ取得に使用する Fetcher */
+	fetcher: FetcherType;
+	/** 並列ワーカー数 */
+	concurrency: number;
+	/** クロール順序 */
+	strategy: CrawlStrategy;
+	/** 前回中断したクロールをチェックポイントから再開 */
+	resume: boolean;
+	/** サイトマップの利用方法 */
+	sitemap: SitemapMode;
+	/** URL正規化ポリシー */
+	urlPolicy: UrlPolicy;
+	/** 重複コンテンツの検出方法 */
+	dedupe: DedupeMode;
+	/** near モードで重複とみなす SimHash のハミング距離の上限 */
+	dedupeDistance: number;
+	/** シードURLと --allow-host のホストへのリクエストに付与するヘッダー（--header、--auth の Authorization） */
+	headers: Record<string, string>;
+	/** リクエストに付与する Cookie（ドメイン・パスが一致するURLにのみ送る） */
+	cookies: RequestCookie[];
+	/** リクエストの User-Agent（nullは各 Fetcher の既定値） */
+	userAgent: string | null;
+	/** robots.txt・meta robots で照合するクローラーのトークン */
+	robotsAgent: string;
+	/** http の URL に使うプロキシURL（--proxy または HTTP_PROXY、認証情報を含みうる。nullは直接接続） */
+	httpProxy: string | null;
+	/** https の URL に使うプロキシURL（--proxy または HTTPS_PROXY、認証情報を含みうる。nullは直接接続） */
+	httpsProxy: string | null;
+	/** プロキシを経由しないホスト（NO_PROXY） */
+	noProxy: string[];
+	/** クロール前に playwright-cli のセッションで実行するログインスクリプトの絶対パス */
+	loginScript: string | null;
+	/** ログインページのURL（ログインスクリプトの開始ページ、リダイレクトされたら認証エラー） */
+	loginUrl: string | null;
+	/** ブラウザのストレージ状態（Cookie・localStorage）ファイルの絶対パス（ログイン後に保存し、以降の実行で読み込む） */
+	storageState: string | null;
+	/** フェッチ結果をキャッシュに記録するディレクトリ（nullは記録しない） */
+	record: string | null;
+	/** ネットワークを使わずにフェッチ結果を再生するキャッシュのディレクトリ（nullは再生しない） */
+	replay: string | null;
 	/** クローラーのバージョン（package.jsonから取得） */
 	version: string;
 }
@@ -31,8 +152,23 @@ export interface FetchResult {
 	html: string;
 	finalUrl: string;
 	contentType: string;
+	/** 取得に使用した Fetcher */
+	fetchedBy?: FetcherName;
+	/** X-Robots-Tag レスポンスヘッダー（複数ある場合はカンマ区切りで連結） */
+	robotsTag?: string;
+	/** ETag レスポンスヘッダー */
+	etag?: string;
+	/** Last-Modified レスポンスヘッダー */
+	lastModified?: string;
+	/** 条件付きリクエストに 304 Not Modified が返った（html は空） */
+	notModified?: boolean;
+	/** HTTP ステータスコード（取得できた場合） */
+	status?: number;
 }
 
+/** 条件付きリクエストに使うキャッシュ検証子（前回のレスポンスの ETag・Last-Modified） */
+export type CacheValidators = Pick<CrawledPage, "etag" | "lastModified">;
+
 /** ページメタデータ */
 export interface PageMetadata {
 	title: string | null;
@@ -41,10 +177,13 @@ export interface PageMetadata {
 	author: string | null;
 	ogTitle: string | null;
 	ogType: string | null;
+	/** <meta name="robots"> の値（複数ある場合はカンマ区切りで連結） */
+	robots: string | null;
 }
 
 /** クロール済みページ情報 */
 export interface CrawledPage {
+	/** リクエストしたURL */
 	url: string;
 	title: string | null;
 	file: string;
@@ -55,6 +194,40 @@ export interface CrawledPage {
 	hash: string;
 	/** このページがクロールされた日時 */
 	crawledAt: string;
+	/** このページを取得した Fetcher */
+	fetchedBy?: FetcherName;
+	/** 正規URL（<link rel="canonical"> またはリダイレクト後のURLを正規化したもの） */
+	canonicalUrl?: string;
+	/** 同じコンテンツ（ハッシュが一致、near モードでは類似）で、ファイルを保存しなかった別のURL */
+	aliases?: string[];
+	/** Markdown の SimHash（16桁の16進数、near モードのみ） */
+	simhash?: string;
+	/** ETag レスポンスヘッダー（差分クロールの条件付きリクエスト用） */
+	etag?: string;
+	/** Last-Modified レスポンスヘッダー（差分クロールの条件付きリクエスト用） */
+	lastModified?: string;
+}
+
+/** CrawledPage の付加情報（ページ登録時に任意で指定） */
+export type CrawledPageExtras = Pick<
+	CrawledPage,
+	"fetchedBy" | "canonicalUrl" | "simhash" | "etag" | "lastModified"
+>;
+
+/** 取得したが保存しなかったページ */
+export interface SkippedPage {
+	url: string;
+	/** 保存しなかった理由（例: "noindex (meta robots)"） */
+	reason: string;
+}
+
+/** 再試行しても取得できなかったページ */
+export interface FailedPage {
+	url: string;
+	/** 最後の失敗の理由（例: "HTTP 503"） */
+	reason: string;
+	/** 試行回数（初回を含む） */
+	attempts: number;
 }
 
 /** 検出されたAPI仕様 */
@@ -68,15 +241,27 @@ export interface DetectedSpec {
 export interface CrawlResult {
 	crawledAt: string;
 	baseUrl: string;
-	config: Pick<CrawlConfig, "maxDepth" | "sameDomain">;
+	/** クロールを開始したURL */
+	seeds: string[];
+	config: Pick<CrawlConfig, "maxDepth" | "scope">;
 	totalPages: number;
 	pages: CrawledPage[];
 	specs: DetectedSpec[];
+	/** 取得したが保存しなかったページ（該当がなければ省略） */
+	skipped?: SkippedPage[];
+	/** 取得に失敗したページ（該当がなければ省略） */
+	failed?: FailedPage[];
 }
 
 /** Fetcher インターフェース */
 export interface Fetcher {
-	fetch(url: string): Promise<FetchResult | null>;
+	/**
+	 * ページを取得
+	 * @param validators 指定した場合は条件付きリクエストを送る（対応しない Fetcher は無視する）
+	 */
+	fetch(url: string, validators?: CacheValidators): Promise<FetchResult | null>;
+	/** ログインスクリプトを実行してセッションを認証（--login-script、対応しない Fetcher は持たない） */
+	login?(): Promise<void>;
 	close?(): Promise<void>;
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Compile a URL path glob into pattern segments for matchGlob
+ *
+ * - Globs without a leading `/` match at any depth (like `**\/<glob>`)
+ * - A segment that is exactly `**` matches zero or more directories, and a
+ *   trailing `**` matches one or more path segments (`/docs/**` matches `/docs/`
+ *   and below, but not `/docs`)
+ * - `*` and `?` match within a path segment; `**` inside a segment is the same
+ *   as `*` (as in .gitignore)
+ *
+ * @param glob - The path glob (e.g. `/docs/**\/api/*`)
+ * @returns Pattern segments split on `/`
+ */
+export function compileGlob(glob: string): string[] {
+	const path = glob.startsWith("/") ? glob : `**/${glob}`;
+	const segments: string[] = [];
+	for (const segment of path.split("/")) {
+		if (segment === "**") {
+			// 連続する "**" は1つと同じ意味
+			if (segments.at(-1) !== "**") {
+				segments.push(segment);
+			}
+		} else {
+			segments.push(segment.replace(/\*{2,}/g, "*"));
+		}
+	}
+	// 末尾の "**" は "**/*"（1つ以上のセグメント）と同じ
+	if (segments.at(-1) === "**") {
+		segments.push("*");
+	}
+	return segments;
+}
+
+/**
+ * Test whether a URL path matches compiled glob segments
+ *
+ * Segments are matched one by one, and within a segment characters are matched
+ * one by one, with the classic wildcard algorithm: on a mismatch it only resumes
+ * from the last `**` (or `*`), so matching takes at most
+ * O(path length × glob length) and never backtracks exponentially.
+ *
+ * @param segments - Pattern segments from compileGlob
+ * @param path - The URL path (e.g. `/docs/api/users`)
+ */
+export function matchGlob(segments: string[], path: string): boolean {
+	return matchWildcard(segments, path.split("/"), "**", matchSegment);
+}
+
+/** 1つのパスセグメントが glob のセグメントに一致するか（`*` はセグメント内の任意の文字列、`?` は任意の1文字） */
+function matchSegment(pattern: string, segment: string): boolean {
+	return matchWildcard(pattern, segment, "*", (p, c) => p === "?" || p === c);
+}
+
+/**
+ * ワイルドカードを含むパターンが入力全体に一致するか
+ * @param pattern - パターンの要素（文字またはセグメント）
+ * @param input - 入力の要素
+ * @param star - 0個以上の要素に一致するパターンの要素
+ * @param matchOne - star 以外のパターンの要素が入力の1要素に一致するか
+ */
+function matchWildcard(
+	pattern: ArrayLike<string>,
+	input: ArrayLike<string>,
+	star: string,
+	matchOne: (pattern: string, input: string) => boolean,
+): boolean {
+	let p = 0;
+	let i = 0;
+	// 直前の star の位置と、その star で読み飛ばし始めた入力の位置
+	let starP = -1;
+	let starI = 0;
+	while (i < input.length) {
+		if (p < pattern.length && pattern[p] === star) {
+			starP = p++;
+			starI = i;
+		} else if (p < pattern.length && matchOne(pattern[p], input[i])) {
+			p++;
+			i++;
+		} else if (starP >= 0) {
+			// 直前の star にもう1要素読ませてやり直す
+			p = starP + 1;
+			i = ++starI;
+		} else {
+			return false;
+		}
+	}
+	while (p < pattern.length && pattern[p] === star) {
+		p++;
+	}
+	return p === pattern.length;
+}
@@ -88,9 +88,9 @@ const getDefaultConfig = (): CrawlConfig => ({
 	maxDepth: 2,
 	maxPages: null,
 	outputDir: testOutputDir,
-	sameDomain: true,
-	includePattern: null,
-	excludePattern: null,
+	scope: "host",
+	includeMatchers: [],
+	excludeMatchers: [],
 	delay: 0,
 	timeout: 30000,
 	spaWait: 0,
@@ -101,6 +101,40 @@ const getDefaultConfig = (): CrawlConfig => ({
 	chunks: true,
 	keepSession: false,
 	respectRobots: true,
+	fetcher: "playwright",
+	concurrency: 1,
+	strategy: "bfs",
+	resume: false,
+	sitemap: "off",
+	seeds: ["https://example.com"],
+	urlPolicy: {
+		dropParams: ["utm_*", "gclid", "fbclid"],
+		keepParams: null,
+		sortQuery: false,
+		trailingSlash: "keep",
+		collapseIndex: true,
+		honorCanonical: true,
+	},
+	dedupe: "exact",
+	dedupeDistance: 3,
+	allowedHosts: [],
+	respectMetaRobots: true,
+	retries: 0,
+	breakerThreshold: 0,
+	breakerCooldown: 60000,
+	record: null,
+	replay: null,
+	headers: {},
+	cookies: [],
+	loginScript: null,
+	loginUrl: null,
+	storageState: null,
+	userAgent: null,
+	robotsAgent: "link-crawler",
+	httpProxy: null,
+	httpsProxy: null,
+	noProxy: [],
+	waitFor: null,
 	version: "test-version",
 });
 
@@ -215,7 +249,7 @@ describe("Crawler Integration", () => {
 			expect(teamPage.depth).toBe(2);
 		});
 
-		it("should respect sameDomain option", async () => {
+		it("should respect the host scope", async () => {
 			const mockFetcher = new MockFetcher({
 				"https://example.com": {
 					html: createTestHtml({
@@ -238,7 +272,7 @@ describe("Crawler Integration", () => {
 				},
 			});
 
-			const config = { ...getDefaultConfig(), sameDomain: true };
+			const config: CrawlConfig = { ...getDefaultConfig(), scope: "host" };
 			const crawler = new Crawler(config, mockFetcher);
 			await crawler.run();
 
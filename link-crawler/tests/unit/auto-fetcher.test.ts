@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { AutoFetcher } from "../../src/crawler/auto-fetcher.js";
+import type { Fetcher, FetchResult } from "../../src/types.js";
+
+const STATIC_HTML = `<html><body><main><h1>Guide</h1><p>${"Static documentation content. ".repeat(10)}</p></main></body></html>`;
+const SHELL_HTML = `<html><body><div id="root"></div><script src="/app.js"></script></body></html>`;
+const RENDERED_HTML = `<html><body><div id="root"><h1>Rendered</h1><p>${"Rendered content. ".repeat(10)}</p></div></body></html>`;
+
+/** 固定レスポンスを返すFetcherを生成 */
+function createFetcher(result: FetchResult | null): Fetcher & {
+	fetch: ReturnType<typeof vi.fn>;
+	close: ReturnType<typeof vi.fn>;
+} {
+	return {
+		fetch: vi.fn().mockResolvedValue(result),
+		close: vi.fn().mockResolvedValue(undefined),
+	};
+}
+
+describe("AutoFetcher", () => {
+	it("should return the HTTP result for static pages without creating a browser fetcher", async () => {
+		const http = createFetcher({
+			html: STATIC_HTML,
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+			fetchedBy: "http",
+		});
+		const createBrowser = vi.fn();
+		const fetcher = new AutoFetcher(http, createBrowser);
+
+		const result = await fetcher.fetch("https://example.com/");
+
+		expect(result?.fetchedBy).toBe("http");
+		expect(createBrowser).not.toHaveBeenCalled();
+	});
+
+	it("should re-fetch JavaScript shells with the browser fetcher", async () => {
+		const http = createFetcher({
+			html: SHELL_HTML,
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+			fetchedBy: "http",
+		});
+		const browser = createFetcher({
+			html: RENDERED_HTML,
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+			fetchedBy: "playwright",
+		});
+		const fetcher = new AutoFetcher(http, () => Promise.resolve(browser));
+
+		const result = await fetcher.fetch("https://example.com/");
+
+		expect(browser.fetch).toHaveBeenCalledWith("https://example.com/");
+		expect(result?.fetchedBy).toBe("playwright");
+		expect(result?.html).toContain("Rendered");
+	});
+
+	it("should create the browser fetcher only once", async () => {
+		const http = createFetcher({
+			html: SHELL_HTML,
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+		});
+		const browser = createFetcher(null);
+		const createBrowser = vi.fn().mockResolvedValue(browser);
+		const fetcher = new AutoFetcher(http, createBrowser);
+
+		await Promise.all([
+			fetcher.fetch("https://example.com/a"),
+			fetcher.fetch("https://example.com/b"),
+		]);
+
+		expect(createBrowser).toHaveBeenCalledTimes(1);
+		expect(browser.fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("should pass cache validators to the HTTP fetcher and return 304 results as-is", async () => {
+		const http = createFetcher({
+			html: "",
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+			fetchedBy: "http",
+			notModified: true,
+		});
+		const createBrowser = vi.fn();
+		const fetcher = new AutoFetcher(http, createBrowser);
+
+		const result = await fetcher.fetch("https://example.com/", { etag: '"v1"' });
+
+		expect(http.fetch).toHaveBeenCalledWith("https://example.com/", { etag: '"v1"' });
+		expect(result?.notModified).toBe(true);
+		expect(createBrowser).not.toHaveBeenCalled();
+	});
+
+	it("should not escalate non-HTML responses", async () => {
+		const http = createFetcher({
+			html: "User-agent: *",
+			finalUrl: "https://example.com/robots.txt",
+			contentType: "text/plain",
+		});
+		const createBrowser = vi.fn();
+		const fetcher = new AutoFetcher(http, createBrowser);
+
+		const result = await fetcher.fetch("https://example.com/robots.txt");
+
+		expect(result?.html).toBe("User-agent: *");
+		expect(createBrowser).not.toHaveBeenCalled();
+	});
+
+	it("should not escalate failed HTTP fetches", async () => {
+		const http = createFetcher(null);
+		const createBrowser = vi.fn();
+		const fetcher = new AutoFetcher(http, createBrowser);
+
+		expect(await fetcher.fetch("https://example.com/missing")).toBeNull();
+		expect(createBrowser).not.toHaveBeenCalled();
+	});
+
+	it("should close both fetchers", async () => {
+		const http = createFetcher({
+			html: SHELL_HTML,
+			finalUrl: "https://example.com/",
+			contentType: "text/html",
+		});
+		const browser = createFetcher(null);
+		const fetcher = new AutoFetcher(http, () => Promise.resolve(browser));
+
+		await fetcher.fetch("https://example.com/");
+		await fetcher.close();
+
+		expect(http.close).toHaveBeenCalled();
+		expect(browser.close).toHaveBeenCalled();
+	});
+});
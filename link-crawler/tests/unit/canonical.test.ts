@@ -0,0 +1,124 @@
+import { JSDOM } from "jsdom";
+import { describe, expect, it } from "vitest";
+import { applyUrlPolicy, extractCanonicalLink } from "../../src/parser/canonical.js";
+import type { UrlPolicy } from "../../src/types.js";
+
+const basePolicy: UrlPolicy = {
+	dropParams: ["utm_*", "gclid", "fbclid"],
+	keepParams: null,
+	sortQuery: false,
+	trailingSlash: "keep",
+	collapseIndex: true,
+	honorCanonical: true,
+};
+
+/** ポリシーを適用したURL文字列を返す */
+function canonicalize(url: string, overrides: Partial<UrlPolicy> = {}): string {
+	const parsed = new URL(url);
+	applyUrlPolicy(parsed, { ...basePolicy, ...overrides });
+	return parsed.href;
+}
+
+describe("applyUrlPolicy", () => {
+	describe("query parameters", () => {
+		it("should drop tracking parameters by exact name and prefix", () => {
+			expect(canonicalize("https://example.com/a?utm_source=x&id=1&gclid=abc&utm_medium=y")).toBe(
+				"https://example.com/a?id=1",
+			);
+		});
+
+		it("should remove the query entirely when every parameter is dropped", () => {
+			expect(canonicalize("https://example.com/a?utm_source=x")).toBe("https://example.com/a");
+		});
+
+		it("should keep only the listed parameters when keepParams is set", () => {
+			expect(
+				canonicalize("https://example.com/a?page=2&lang=en&utm_source=x", {
+					keepParams: ["page", "utm_*"],
+				}),
+			).toBe("https://example.com/a?page=2&utm_source=x");
+		});
+
+		it("should sort parameters by key and keep the order of repeated keys", () => {
+			expect(canonicalize("https://example.com/a?b=2&a=1&b=1", { sortQuery: true })).toBe(
+				"https://example.com/a?a=1&b=2&b=1",
+			);
+		});
+
+		it("should not re-encode the query when nothing changes", () => {
+			expect(canonicalize("https://example.com/a?q=a%20b&x=1", { sortQuery: true })).toBe(
+				"https://example.com/a?q=a%20b&x=1",
+			);
+		});
+	});
+
+	describe("path", () => {
+		it("should collapse index.html into the directory URL", () => {
+			expect(canonicalize("https://example.com/docs/index.html")).toBe("https://example.com/docs/");
+			expect(canonicalize("https://example.com/INDEX.HTM")).toBe("https://example.com/");
+		});
+
+		it("should keep index.html when collapseIndex is disabled", () => {
+			expect(canonicalize("https://example.com/docs/index.html", { collapseIndex: false })).toBe(
+				"https://example.com/docs/index.html",
+			);
+		});
+
+		it("should strip trailing slashes except for the root", () => {
+			expect(canonicalize("https://example.com/docs/", { trailingSlash: "strip" })).toBe(
+				"https://example.com/docs",
+			);
+			expect(canonicalize("https://example.com/docs/index.html", { trailingSlash: "strip" })).toBe(
+				"https://example.com/docs",
+			);
+			expect(canonicalize("https://example.com/", { trailingSlash: "strip" })).toBe(
+				"https://example.com/",
+			);
+		});
+
+		it("should add a trailing slash to paths without an extension", () => {
+			expect(canonicalize("https://example.com/docs", { trailingSlash: "add" })).toBe(
+				"https://example.com/docs/",
+			);
+			expect(canonicalize("https://example.com/docs/page.html", { trailingSlash: "add" })).toBe(
+				"https://example.com/docs/page.html",
+			);
+		});
+
+		it("should leave trailing slashes unchanged with keep", () => {
+			expect(canonicalize("https://example.com/docs/")).toBe("https://example.com/docs/");
+			expect(canonicalize("https://example.com/docs")).toBe("https://example.com/docs");
+		});
+	});
+
+	it("should lower-case the host", () => {
+		expect(canonicalize("https://Docs.Example.COM/Guide")).toBe("https://docs.example.com/Guide");
+	});
+});
+
+describe("extractCanonicalLink", () => {
+	const dom = (head: string, url = "https://example.com/docs/page?utm_source=x") =>
+		new JSDOM(`<html><head>${head}</head><body></body></html>`, { url });
+
+	it("should resolve the canonical link against the page URL", () => {
+		expect(extractCanonicalLink(dom('<link rel="canonical" href="/docs/page">'))).toBe(
+			"https://example.com/docs/page",
+		);
+	});
+
+	it("should match rel case-insensitively among multiple tokens", () => {
+		expect(
+			extractCanonicalLink(dom('<link rel="Canonical alternate" href="https://example.com/x">')),
+		).toBe("https://example.com/x");
+	});
+
+	it("should return null without a canonical link", () => {
+		expect(extractCanonicalLink(dom('<link rel="stylesheet" href="/style.css">'))).toBeNull();
+	});
+
+	it("should ignore non-http canonical links", () => {
+		expect(
+			extractCanonicalLink(dom('<link rel="canonical" href="javascript:void(0)">')),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,105 @@
+import { existsSync, utimesSync, writeFileSync } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	type CrawlCheckpoint,
+	findCheckpointDir,
+	loadCheckpoint,
+	removeCheckpoint,
+	saveCheckpoint,
+} from "../../src/crawler/checkpoint.js";
+
+const checkpoint: CrawlCheckpoint = {
+	startUrl: "https://example.com",
+	seeds: ["https://example.com", "https://example.com/guide"],
+	savedAt: "2025-01-01T00:00:00.000Z",
+	queue: [{ url: "https://example.com/b", depth: 1 }],
+	visited: ["https://example.com", "https://example.com/a"],
+	failed: { "https://example.com/c": 1 },
+	attemptedCount: 3,
+};
+
+describe("checkpoint", () => {
+	const baseDir = join(import.meta.dirname, `.test-checkpoint-${process.pid}`);
+	const outputDir = join(baseDir, "site");
+
+	beforeEach(async () => {
+		await rm(baseDir, { recursive: true, force: true });
+		await mkdir(outputDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(baseDir, { recursive: true, force: true });
+	});
+
+	describe("saveCheckpoint / loadCheckpoint", () => {
+		it("should round-trip a checkpoint", () => {
+			const path = saveCheckpoint(outputDir, checkpoint);
+
+			expect(path).toBe(join(outputDir, ".crawl-checkpoint.json"));
+			expect(existsSync(`${path}.tmp`)).toBe(false);
+			expect(loadCheckpoint(outputDir)).toEqual(checkpoint);
+		});
+
+		it("should return null when no checkpoint exists", () => {
+			expect(loadCheckpoint(outputDir)).toBeNull();
+		});
+
+		it("should return null for a malformed checkpoint", () => {
+			writeFileSync(join(outputDir, ".crawl-checkpoint.json"), "{ not json");
+			expect(loadCheckpoint(outputDir)).toBeNull();
+
+			writeFileSync(
+				join(outputDir, ".crawl-checkpoint.json"),
+				JSON.stringify({ ...checkpoint, queue: [{ url: "https://example.com/b" }] }),
+			);
+			expect(loadCheckpoint(outputDir)).toBeNull();
+
+			writeFileSync(
+				join(outputDir, ".crawl-checkpoint.json"),
+				JSON.stringify({ ...checkpoint, seeds: "https://example.com" }),
+			);
+			expect(loadCheckpoint(outputDir)).toBeNull();
+		});
+	});
+
+	describe("removeCheckpoint", () => {
+		it("should remove the checkpoint and ignore a missing file", () => {
+			saveCheckpoint(outputDir, checkpoint);
+			removeCheckpoint(outputDir);
+			expect(loadCheckpoint(outputDir)).toBeNull();
+
+			expect(() => removeCheckpoint(outputDir)).not.toThrow();
+		});
+	});
+
+	describe("findCheckpointDir", () => {
+		it("should prefer the output directory", async () => {
+			const tempDir = `${outputDir}.tmp-1-1`;
+			await mkdir(tempDir);
+			saveCheckpoint(tempDir, checkpoint);
+			saveCheckpoint(outputDir, checkpoint);
+
+			expect(findCheckpointDir(outputDir)).toBe(outputDir);
+		});
+
+		it("should fall back to the newest leftover temp directory", async () => {
+			const olderDir = `${outputDir}.tmp-1-1`;
+			const newerDir = `${outputDir}.tmp-2-1`;
+			await mkdir(olderDir);
+			await mkdir(newerDir);
+			await mkdir(`${outputDir}.tmp-3-1`); // チェックポイントなし
+			saveCheckpoint(newerDir, checkpoint);
+			saveCheckpoint(olderDir, checkpoint);
+			utimesSync(join(olderDir, ".crawl-checkpoint.json"), new Date(1000), new Date(1000));
+
+			expect(findCheckpointDir(outputDir)).toBe(newerDir);
+		});
+
+		it("should return null when there is nothing to resume", () => {
+			expect(findCheckpointDir(outputDir)).toBeNull();
+			expect(findCheckpointDir(join(baseDir, "missing", "site"))).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker } from "../../src/crawler/circuit-breaker.js";
+
+/** 時刻を手動で進めるテスト用の CircuitBreaker を作成 */
+function createBreaker(threshold = 3, cooldownMs = 1000) {
+	let now = 0;
+	const breaker = new CircuitBreaker({ threshold, cooldownMs, now: () => now });
+	return {
+		breaker,
+		advance: (ms: number) => {
+			now += ms;
+		},
+	};
+}
+
+describe("CircuitBreaker", () => {
+	it("should open after the threshold of consecutive failures", () => {
+		const { breaker } = createBreaker();
+
+		expect(breaker.recordFailure("https://example.com/a")).toBeNull();
+		expect(breaker.recordFailure("https://example.com/b")).toBeNull();
+		expect(breaker.canRequest("https://example.com/c")).toBe(true);
+		expect(breaker.recordFailure("https://example.com/c")).toBe(3);
+
+		expect(breaker.canRequest("https://example.com/d")).toBe(false);
+		expect(breaker.canRequest("https://other.example.com/a")).toBe(true);
+	});
+
+	it("should reset the failure count after a success", () => {
+		const { breaker } = createBreaker();
+
+		breaker.recordFailure("https://example.com/a");
+		breaker.recordFailure("https://example.com/b");
+		breaker.recordSuccess("https://example.com/c");
+		breaker.recordFailure("https://example.com/d");
+		breaker.recordFailure("https://example.com/e");
+
+		expect(breaker.canRequest("https://example.com/f")).toBe(true);
+	});
+
+	it("should allow a single probe after the cooldown and close on success", () => {
+		const { breaker, advance } = createBreaker(1);
+		breaker.recordFailure("https://example.com/a");
+
+		advance(999);
+		expect(breaker.canRequest("https://example.com/b")).toBe(false);
+		advance(1);
+		expect(breaker.canRequest("https://example.com/b")).toBe(true);
+		// 試行リクエストの応答待ちの間は他のリクエストを送らない
+		expect(breaker.canRequest("https://example.com/c")).toBe(false);
+
+		breaker.recordSuccess("https://example.com/b");
+		expect(breaker.canRequest("https://example.com/c")).toBe(true);
+	});
+
+	it("should reopen when the probe fails", () => {
+		const { breaker, advance } = createBreaker(2);
+		breaker.recordFailure("https://example.com/a");
+		breaker.recordFailure("https://example.com/a");
+		advance(1000);
+		expect(breaker.canRequest("https://example.com/b")).toBe(true);
+
+		expect(breaker.recordFailure("https://example.com/b")).toBe(3);
+		expect(breaker.canRequest("https://example.com/c")).toBe(false);
+		advance(1000);
+		expect(breaker.canRequest("https://example.com/c")).toBe(true);
+	});
+
+	it("should report when requests can resume", () => {
+		const { breaker, advance } = createBreaker(1);
+		expect(breaker.resumeAt("https://example.com/a")).toBeNull();
+
+		breaker.recordFailure("https://example.com/a");
+		expect(breaker.resumeAt("https://example.com/b")).toBe(1000);
+		advance(1000);
+		expect(breaker.resumeAt("https://example.com/b")).toBeNull();
+		expect(breaker.canRequest("https://example.com/b")).toBe(true);
+		expect(breaker.resumeAt("https://example.com/c")).toBe(Number.POSITIVE_INFINITY);
+	});
+
+	it("should allow another probe when the probe aborts without a retryable failure", () => {
+		const { breaker, advance } = createBreaker(1);
+		breaker.recordFailure("https://example.com/a");
+		advance(1000);
+		expect(breaker.canRequest("https://example.com/b")).toBe(true);
+
+		breaker.recordAbort("https://example.com/b");
+		expect(breaker.canRequest("https://example.com/c")).toBe(true);
+		expect(breaker.canRequest("https://example.com/d")).toBe(false);
+	});
+
+	it("should never open when the threshold is 0", () => {
+		const { breaker } = createBreaker(0);
+
+		for (let i = 0; i < 10; i++) {
+			expect(breaker.recordFailure("https://example.com/a")).toBeNull();
+		}
+		expect(breaker.canRequest("https://example.com/a")).toBe(true);
+	});
+});
@@ -16,6 +16,11 @@
 import { Command } from "commander";
 import { describe, expect, it } from "vitest";
 
+/** 繰り返し指定できるオプションの値を配列に集める */
+function collect(value: string, previous: string[]): string[] {
+	return [...previous, value];
+}
+
 /**
  * Parse CLI arguments using Commander with the same option definitions as crawl.ts
  *
@@ -27,17 +32,48 @@ function parseCliArgs(args: string[]): Record<string, unknown> {
 	program
 		.name("crawl")
 		.exitOverride() // Prevent process.exit() in tests
-		.argument("<url>", "Starting URL to crawl")
+		.argument("[urls...]", "Starting URLs to crawl")
 		.option("-d, --depth <num>", "Maximum crawl depth", "1")
 		.option("--max-pages <num>", "Maximum number of pages to crawl (0 = unlimited)")
 		.option("-o, --output <dir>", "Output directory (default: ./.context/<site-name>/)")
-		.option("--same-domain", "Only follow same-domain links", true)
-		.option("--no-same-domain", "Follow cross-domain links")
-		.option("--include <pattern>", "Include URL pattern (regex)")
-		.option("--exclude <pattern>", "Exclude URL pattern (regex)")
+		.option("--scope <mode>", "Link scope: prefix|host|domain|any (default: host)")
+		.option("--same-domain", "Only follow same-host links (deprecated: use --scope host)", true)
+		.option("--no-same-domain", "Follow cross-domain links (deprecated: use --scope any)")
+		.option(
+			"--allow-host <host>",
+			"Also crawl this host, e.g. *.example.com (repeatable)",
+			collect,
+			[],
+		)
+		.option("--include <pattern>", "Include URL pattern (regex, repeatable)", collect, [])
+		.option("--exclude <pattern>", "Exclude URL pattern (regex, repeatable)", collect, [])
+		.option(
+			"--include-glob <glob>",
+			"Include URL path glob, e.g. /docs/** (repeatable)",
+			collect,
+			[],
+		)
+		.option(
+			"--exclude-glob <glob>",
+			"Exclude URL path glob, e.g. /blog/** (repeatable)",
+			collect,
+			[],
+		)
+		.option("--filter-file <file>", "Read include/exclude rules from a file (one per line)")
 		.option("--delay <ms>", "Delay between requests in ms", "500")
 		.option("--timeout <sec>", "Request timeout in seconds", "30")
+		.option("--retries <n>", "Retry attempts for timeouts, 5xx and 429 responses", "2")
+		.option(
+			"--breaker-threshold <n>",
+			"Consecutive failures before pausing requests to a host (0 = off)",
+			"5",
+		)
+		.option("--breaker-cooldown <sec>", "Seconds to pause a host after repeated failures", "60")
 		.option("--wait <ms>", "Wait time for page rendering in ms", "2000")
+		.option(
+			"--wait-for <condition>",
+			"Wait until selector:<css>, networkidle or text:<string> (up to --wait ms)",
+		)
 		.option("--headed", "Show browser window", false)
 		.option("--diff", "Incremental crawl (update only changed pages)", false)
 		.option("--no-pages", "Skip individual page output")
@@ -45,11 +81,73 @@ function parseCliArgs(args: string[]): Record<string, unknown> {
 		.option("--chunks", "Enable chunked output files", false)
 		.option("--keep-session", "Keep .playwright-cli directory after crawl (for debugging)", false)
 		.option("--no-robots", "Ignore robots.txt (not recommended)")
+		.option("--no-meta-robots", "Ignore meta robots, X-Robots-Tag and rel=nofollow")
+		.option("--fetcher <type>", "Page fetcher: auto|http|playwright", "playwright")
+		.option("--concurrency <n>", "Number of pages to fetch in parallel", "1")
+		.option("--strategy <type>", "Crawl order: bfs (breadth-first) or dfs (depth-first)", "bfs")
+		.option("--resume", "Resume an interrupted crawl from its checkpoint", false)
+		.option("--sitemap <mode>", "Use sitemap.xml: seed|only|off", "off")
+		.option("--seeds <file>", "Read additional starting URLs from a file (one per line)")
+		.option(
+			"--drop-param <name>",
+			"Drop a query parameter from URLs (repeatable, * = prefix)",
+			collect,
+			[],
+		)
+		.option(
+			"--keep-param <name>",
+			"Keep only these query parameters in URLs (repeatable)",
+			collect,
+			[],
+		)
+		.option("--sort-query", "Sort query parameters in URLs", false)
+		.option("--trailing-slash <mode>", "Trailing slash in URLs: keep|strip|add", "keep")
+		.option("--no-collapse-index", "Keep index.html at the end of URLs")
+		.option("--no-canonical", 'Ignore <link rel="canonical"> in pages')
+		.option("--dedupe <mode>", "Duplicate content detection: exact|near|off", "exact")
+		.option("--dedupe-distance <n>", "Max SimHash Hamming distance for --dedupe near", "3")
+		.option(
+			"--header <header>",
+			'Request header "Name: value" (repeatable, env vars expanded)',
+			collect,
+			[],
+		)
+		.option("--cookie <cookie>", "Cookie name=value (repeatable, env vars expanded)", collect, [])
+		.option("--cookies-file <file>", "Read cookies from a Netscape or JSON cookie file")
+		.option("--auth <spec>", "HTTP authentication: basic:<user>:<password> (env vars expanded)")
+		.option("--user-agent <string>", "User-Agent header sent by the HTTP and Playwright fetchers")
+		.option(
+			"--proxy <url>",
+			"Proxy for all requests: http(s)://[user:pass@]host:port or socks5:// (env vars expanded)",
+		)
+		.option(
+			"--robots-agent <token>",
+			"Agent token matched in robots.txt and meta robots",
+			"link-crawler",
+		)
+		.option(
+			"--login-script <file>",
+			"Run a Playwright login script before crawling (needs --login-url)",
+		)
+		.option("--login-url <url>", "Login page URL (a redirect back to it stops the crawl)")
+		.option("--storage-state <file>", "Save/load browser cookies and localStorage after login")
+		.option("--record <dir>", "Record fetched responses to a cache directory")
+		.option("--replay <dir>", "Serve the crawl from a recorded cache (no network)")
 		.parse(args, { from: "user" });
 
 	return program.opts();
 }
 
+describe("CLI option parsing: --no-meta-robots", () => {
+	it("metaRobots defaults to true", () => {
+		expect(parseCliArgs(["https://example.com"]).metaRobots).toBe(true);
+	});
+
+	it("--no-meta-robots sets metaRobots to false", () => {
+		expect(parseCliArgs(["https://example.com", "--no-meta-robots"]).metaRobots).toBe(false);
+	});
+});
+
 describe("CLI option parsing: --no-robots (Issue #699)", () => {
 	it("robots defaults to true (respects robots.txt)", () => {
 		const opts = parseCliArgs(["https://example.com"]);
@@ -103,6 +201,18 @@ describe("CLI option parsing: --same-domain / --no-same-domain", () => {
 	});
 });
 
+describe("CLI option parsing: --scope", () => {
+	it("scope is undefined when not specified (resolved by parseConfig)", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.scope).toBeUndefined();
+	});
+
+	it("--scope prefix sets scope", () => {
+		const opts = parseCliArgs(["https://example.com/docs/", "--scope", "prefix"]);
+		expect(opts.scope).toBe("prefix");
+	});
+});
+
 describe("CLI option parsing: numeric options", () => {
 	it("depth parses string (Commander keeps string for default values)", () => {
 		const opts = parseCliArgs(["https://example.com", "--depth", "5"]);
@@ -210,14 +320,40 @@ describe("CLI option parsing: boolean flags", () => {
 });
 
 describe("CLI option parsing: string options", () => {
-	it("include pattern is parsed as string", () => {
+	it("include pattern is collected into an array", () => {
 		const opts = parseCliArgs(["https://example.com", "--include", "^/docs"]);
-		expect(opts.include).toBe("^/docs");
+		expect(opts.include).toEqual(["^/docs"]);
 	});
 
-	it("exclude pattern is parsed as string", () => {
+	it("exclude pattern is collected into an array", () => {
 		const opts = parseCliArgs(["https://example.com", "--exclude", "\\.pdf$"]);
-		expect(opts.exclude).toBe("\\.pdf$");
+		expect(opts.exclude).toEqual(["\\.pdf$"]);
+	});
+
+	it("include/exclude patterns and globs default to empty arrays", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.include).toEqual([]);
+		expect(opts.exclude).toEqual([]);
+		expect(opts.includeGlob).toEqual([]);
+		expect(opts.excludeGlob).toEqual([]);
+		expect(opts.filterFile).toBeUndefined();
+	});
+
+	it("repeated --include-glob / --exclude-glob are collected in order", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--include-glob",
+			"/docs/**",
+			"--include-glob",
+			"/api/*",
+			"--exclude-glob",
+			"**/draft/**",
+			"--filter-file",
+			"rules.txt",
+		]);
+		expect(opts.includeGlob).toEqual(["/docs/**", "/api/*"]);
+		expect(opts.excludeGlob).toEqual(["**/draft/**"]);
+		expect(opts.filterFile).toBe("rules.txt");
 	});
 
 	it("output directory is parsed as string", () => {
@@ -263,8 +399,8 @@ describe("CLI option parsing: multiple options combination", () => {
 		]);
 
 		expect(opts.sameDomain).toBe(false);
-		expect(opts.include).toBe("^/api");
-		expect(opts.exclude).toBe("\\.json$");
+		expect(opts.include).toEqual(["^/api"]);
+		expect(opts.exclude).toEqual(["\\.json$"]);
 	});
 
 	it("handles timing-related options together", () => {
@@ -306,6 +442,20 @@ describe("CLI option parsing: argument parsing", () => {
 
 		expect(program.args).toEqual(["https://example.com/docs"]);
 	});
+
+	it("parses multiple URL arguments", () => {
+		const program = new Command();
+		program
+			.name("crawl")
+			.exitOverride()
+			.argument("[urls...]", "Starting URLs to crawl")
+			.option("--depth <num>")
+			.parse(["https://example.com/docs", "--depth", "2", "https://example.com/api"], {
+				from: "user",
+			});
+
+		expect(program.args).toEqual(["https://example.com/docs", "https://example.com/api"]);
+	});
 });
 
 describe("CLI option parsing: edge cases", () => {
@@ -345,3 +495,258 @@ describe("CLI option parsing: edge cases", () => {
 		expect(opts2.sameDomain).toBe(true);
 	});
 });
+
+describe("CLI option parsing: --fetcher", () => {
+	it("fetcher defaults to playwright", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.fetcher).toBe("playwright");
+	});
+
+	it("--fetcher http sets fetcher to http", () => {
+		const opts = parseCliArgs(["https://example.com", "--fetcher", "http"]);
+		expect(opts.fetcher).toBe("http");
+	});
+
+	it("--fetcher auto sets fetcher to auto", () => {
+		const opts = parseCliArgs(["https://example.com", "--fetcher", "auto"]);
+		expect(opts.fetcher).toBe("auto");
+	});
+});
+
+describe("CLI option parsing: --strategy", () => {
+	it("strategy defaults to bfs", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.strategy).toBe("bfs");
+	});
+
+	it("--strategy dfs sets strategy to dfs", () => {
+		const opts = parseCliArgs(["https://example.com", "--strategy", "dfs"]);
+		expect(opts.strategy).toBe("dfs");
+	});
+});
+
+describe("CLI option parsing: --seeds", () => {
+	it("seeds is undefined by default", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.seeds).toBeUndefined();
+	});
+
+	it("--seeds works without a URL argument", () => {
+		const opts = parseCliArgs(["--seeds", "urls.txt"]);
+		expect(opts.seeds).toBe("urls.txt");
+	});
+});
+
+describe("CLI option parsing: URL policy", () => {
+	it("uses defaults when no URL policy option is given", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.dropParam).toEqual([]);
+		expect(opts.keepParam).toEqual([]);
+		expect(opts.sortQuery).toBe(false);
+		expect(opts.trailingSlash).toBe("keep");
+		expect(opts.collapseIndex).toBe(true);
+		expect(opts.canonical).toBe(true);
+	});
+
+	it("collects repeated --drop-param and --keep-param values", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--drop-param",
+			"sessionid",
+			"--drop-param",
+			"ref_*",
+			"--keep-param",
+			"page",
+		]);
+		expect(opts.dropParam).toEqual(["sessionid", "ref_*"]);
+		expect(opts.keepParam).toEqual(["page"]);
+	});
+
+	it("--no-collapse-index and --no-canonical disable the defaults", () => {
+		const opts = parseCliArgs(["https://example.com", "--no-collapse-index", "--no-canonical"]);
+		expect(opts.collapseIndex).toBe(false);
+		expect(opts.canonical).toBe(false);
+	});
+});
+
+describe("CLI option parsing: --dedupe", () => {
+	it("dedupe defaults to exact with distance 3", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.dedupe).toBe("exact");
+		expect(opts.dedupeDistance).toBe("3");
+	});
+
+	it("--dedupe near and --dedupe-distance set the values", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--dedupe",
+			"near",
+			"--dedupe-distance",
+			"5",
+		]);
+		expect(opts.dedupe).toBe("near");
+		expect(opts.dedupeDistance).toBe("5");
+	});
+});
+
+describe("CLI option parsing: --sitemap", () => {
+	it("sitemap defaults to off", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.sitemap).toBe("off");
+	});
+
+	it("--sitemap only sets sitemap to only", () => {
+		const opts = parseCliArgs(["https://example.com", "--sitemap", "only"]);
+		expect(opts.sitemap).toBe("only");
+	});
+});
+
+describe("CLI option parsing: --resume", () => {
+	it("resume defaults to false", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.resume).toBe(false);
+	});
+
+	it("--resume sets resume to true", () => {
+		const opts = parseCliArgs(["https://example.com", "--resume"]);
+		expect(opts.resume).toBe(true);
+	});
+});
+
+describe("CLI option parsing: --retries", () => {
+	it("retries defaults to 2", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.retries).toBe("2");
+	});
+
+	it("--retries 5 sets retries", () => {
+		const opts = parseCliArgs(["https://example.com", "--retries", "5"]);
+		expect(opts.retries).toBe("5");
+	});
+});
+
+describe("CLI option parsing: --breaker-threshold / --breaker-cooldown", () => {
+	it("uses default values '5' and '60'", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.breakerThreshold).toBe("5");
+		expect(opts.breakerCooldown).toBe("60");
+	});
+
+	it("parses both options", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--breaker-threshold",
+			"0",
+			"--breaker-cooldown",
+			"120",
+		]);
+		expect(opts.breakerThreshold).toBe("0");
+		expect(opts.breakerCooldown).toBe("120");
+	});
+});
+
+describe("CLI option parsing: --header / --cookie / --cookies-file / --auth", () => {
+	it("defaults to no credentials", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.header).toEqual([]);
+		expect(opts.cookie).toEqual([]);
+		expect(opts.cookiesFile).toBeUndefined();
+		expect(opts.auth).toBeUndefined();
+	});
+
+	it("collects repeated headers and cookies", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--header",
+			"X-A: 1",
+			"--header",
+			"X-B: 2",
+			"--cookie",
+			"a=1",
+			"--cookies-file",
+			"cookies.txt",
+			"--auth",
+			"basic:user:pass",
+		]);
+		expect(opts.header).toEqual(["X-A: 1", "X-B: 2"]);
+		expect(opts.cookie).toEqual(["a=1"]);
+		expect(opts.cookiesFile).toBe("cookies.txt");
+		expect(opts.auth).toBe("basic:user:pass");
+	});
+});
+
+describe("CLI option parsing: --wait-for", () => {
+	it("parses the wait condition", () => {
+		const opts = parseCliArgs(["https://example.com", "--wait-for", "selector:#content"]);
+		expect(opts.waitFor).toBe("selector:#content");
+	});
+});
+
+describe("CLI option parsing: --proxy", () => {
+	it("parses the proxy URL", () => {
+		const opts = parseCliArgs(["https://example.com", "--proxy", "http://proxy.corp:3128"]);
+		expect(opts.proxy).toBe("http://proxy.corp:3128");
+	});
+});
+
+describe("CLI option parsing: --user-agent / --robots-agent", () => {
+	it("defaults the robots agent to link-crawler", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.userAgent).toBeUndefined();
+		expect(opts.robotsAgent).toBe("link-crawler");
+	});
+
+	it("parses the agent options", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--user-agent",
+			"DocsBot/1.0 (+https://example.com/bot)",
+			"--robots-agent",
+			"DocsBot",
+		]);
+		expect(opts.userAgent).toBe("DocsBot/1.0 (+https://example.com/bot)");
+		expect(opts.robotsAgent).toBe("DocsBot");
+	});
+});
+
+describe("CLI option parsing: --login-script / --login-url / --storage-state", () => {
+	it("parses the login options", () => {
+		const opts = parseCliArgs([
+			"https://example.com",
+			"--login-script",
+			"login.js",
+			"--login-url",
+			"https://sso.example.com/login",
+			"--storage-state",
+			"state.json",
+		]);
+		expect(opts.loginScript).toBe("login.js");
+		expect(opts.loginUrl).toBe("https://sso.example.com/login");
+		expect(opts.storageState).toBe("state.json");
+	});
+});
+
+describe("CLI option parsing: --record / --replay", () => {
+	it("are undefined by default", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.record).toBeUndefined();
+		expect(opts.replay).toBeUndefined();
+	});
+
+	it("parses the cache directories", () => {
+		expect(parseCliArgs(["https://example.com", "--record", "cache"]).record).toBe("cache");
+		expect(parseCliArgs(["https://example.com", "--replay", "cache"]).replay).toBe("cache");
+	});
+});
+
+describe("CLI option parsing: --concurrency", () => {
+	it("concurrency defaults to 1", () => {
+		const opts = parseCliArgs(["https://example.com"]);
+		expect(opts.concurrency).toBe("1");
+	});
+
+	it("--concurrency 4 sets concurrency", () => {
+		const opts = parseCliArgs(["https://example.com", "--concurrency", "4"]);
+		expect(opts.concurrency).toBe("4");
+	});
+});
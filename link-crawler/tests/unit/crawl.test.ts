@@ -82,6 +82,7 @@ describe("crawl.ts entrypoint - code coverage", () => {
 			expect(EXIT_CODES.INVALID_ARGUMENTS).toBe(2);
 			expect(EXIT_CODES.DEPENDENCY_ERROR).toBe(3);
 			expect(EXIT_CODES.CRAWL_ERROR).toBe(4);
+			expect(EXIT_CODES.AUTH_ERROR).toBe(5);
 		});
 	});
 
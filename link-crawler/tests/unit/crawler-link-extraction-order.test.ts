@@ -52,9 +52,9 @@ describe("Crawler - link extraction order", () => {
 			maxDepth: 1,
 			maxPages: null,
 			outputDir: testDir,
-			sameDomain: true,
-			includePattern: null,
-			excludePattern: null,
+			scope: "host",
+			includeMatchers: [],
+			excludeMatchers: [],
 			delay: 0,
 			timeout: 30000,
 			spaWait: 0,
@@ -65,6 +65,40 @@ describe("Crawler - link extraction order", () => {
 			chunks: false,
 			keepSession: false,
 			respectRobots: false,
+			fetcher: "playwright",
+			concurrency: 1,
+			strategy: "bfs",
+			resume: false,
+			sitemap: "off",
+			seeds: ["https://example.com"],
+			urlPolicy: {
+				dropParams: ["utm_*", "gclid", "fbclid"],
+				keepParams: null,
+				sortQuery: false,
+				trailingSlash: "keep",
+				collapseIndex: true,
+				honorCanonical: true,
+			},
+			dedupe: "exact",
+			dedupeDistance: 3,
+			allowedHosts: [],
+			respectMetaRobots: true,
+			retries: 0,
+			breakerThreshold: 0,
+			breakerCooldown: 60000,
+			record: null,
+			replay: null,
+			headers: {},
+			cookies: [],
+			loginScript: null,
+			loginUrl: null,
+			storageState: null,
+			userAgent: null,
+			robotsAgent: "link-crawler",
+			httpProxy: null,
+			httpsProxy: null,
+			noProxy: [],
+			waitFor: null,
 			version: "1.0.0",
 		};
 	});
@@ -4,7 +4,8 @@ import { join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { Crawler } from "../../src/crawler/index.js";
-import type { CrawlConfig, Fetcher, FetchResult } from "../../src/types.js";
+import { AuthError } from "../../src/errors.js";
+import type { CacheValidators, CrawlConfig, Fetcher, FetchResult } from "../../src/types.js";
 
 // Mock fetcher for testing
 class MockFetcher implements Fetcher {
@@ -42,9 +43,9 @@ describe("Crawler", () => {
 			maxDepth: 2,
 			maxPages: null,
 			outputDir: testDir,
-			sameDomain: true,
-			includePattern: null,
-			excludePattern: null,
+			scope: "host",
+			includeMatchers: [],
+			excludeMatchers: [],
 			delay: 0,
 			timeout: 30000,
 			spaWait: 2000,
@@ -55,6 +56,40 @@ describe("Crawler", () => {
 			chunks: false,
 			keepSession: false,
 			respectRobots: true,
+			fetcher: "playwright",
+			concurrency: 1,
+			strategy: "bfs",
+			resume: false,
+			sitemap: "off",
+			seeds: ["https://example.com"],
+			urlPolicy: {
+				dropParams: ["utm_*", "gclid", "fbclid"],
+				keepParams: null,
+				sortQuery: false,
+				trailingSlash: "keep",
+				collapseIndex: true,
+				honorCanonical: true,
+			},
+			dedupe: "exact",
+			dedupeDistance: 3,
+			allowedHosts: [],
+			respectMetaRobots: true,
+			retries: 0,
+			breakerThreshold: 0,
+			breakerCooldown: 60000,
+			record: null,
+			replay: null,
+			headers: {},
+			cookies: [],
+			loginScript: null,
+			loginUrl: null,
+			storageState: null,
+			userAgent: null,
+			robotsAgent: "link-crawler",
+			httpProxy: null,
+			httpsProxy: null,
+			noProxy: [],
+			waitFor: null,
 			version: "test-version",
 		};
 	});
@@ -137,6 +172,22 @@ describe("Crawler", () => {
 
 			expect(mockFetcher.isClosed()).toBe(true);
 		});
+
+		it("should record which fetcher served the page in index.json", async () => {
+			const html = "<html><head><title>Test</title></head><body><p>Content</p></body></html>";
+			mockFetcher.setResponse("https://example.com", {
+				html,
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+				fetchedBy: "playwright",
+			});
+
+			const crawler = new Crawler(baseConfig, mockFetcher);
+			await crawler.run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages[0].fetchedBy).toBe("playwright");
+		});
 	});
 
 	describe("depth limiting", () => {
@@ -238,8 +289,765 @@ describe("Crawler", () => {
 		});
 	});
 
-	describe("sameDomain filtering", () => {
-		it("should only crawl same domain when sameDomain is true", async () => {
+	describe("concurrent crawling", () => {
+		/** 後に割り当てたページほど早く応答し、同時実行数を記録する Fetcher */
+		class DelayedFetcher extends MockFetcher {
+			inFlight = 0;
+			maxInFlight = 0;
+
+			constructor(private delays: Map<string, number>) {
+				super();
+			}
+
+			async fetch(url: string): Promise<FetchResult | null> {
+				this.inFlight++;
+				this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+				await new Promise((resolve) => setTimeout(resolve, this.delays.get(url) ?? 0));
+				this.inFlight--;
+				return super.fetch(url);
+			}
+		}
+
+		const childUrls = ["a", "b", "c", "d"].map((name) => `https://example.com/${name}`);
+
+		const setupSite = (fetcher: MockFetcher): void => {
+			const links = childUrls.map((url) => `<a href="${url}">${url}</a>`).join("");
+			fetcher.setResponse("https://example.com", {
+				html: `<html><head><title>Root</title></head><body>${links}</body></html>`,
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			for (const url of childUrls) {
+				fetcher.setResponse(url, {
+					html: `<html><head><title>${url}</title></head><body><p>Content of ${url}</p></body></html>`,
+					finalUrl: url,
+					contentType: "text/html",
+				});
+			}
+		};
+
+		it("should fetch pages in parallel and keep index order deterministic", async () => {
+			// 後のページほど早く完了させる
+			const delays = new Map(childUrls.map((url, i) => [url, (childUrls.length - i) * 20]));
+			const fetcher = new DelayedFetcher(delays);
+			setupSite(fetcher);
+
+			const crawler = new Crawler({ ...baseConfig, concurrency: 3 }, fetcher);
+			await crawler.run();
+
+			expect(fetcher.maxInFlight).toBe(3);
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			const urls = indexData.pages.map((p: { url: string }) => p.url);
+			expect(urls).toEqual(["https://example.com", ...childUrls]);
+			expect(indexData.pages[1].file).toMatch(/page-002/);
+			expect(indexData.pages[4].file).toMatch(/page-005/);
+		});
+
+		it("should record a redirect target as an alias regardless of response timing", async () => {
+			const html = (title: string, links: string[] = []) =>
+				`<html><head><title>${title}</title></head><body><p>${title}</p>${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</body></html>`;
+			const crawlWith = async (delays: Map<string, number>) => {
+				await rm(testDir, { recursive: true, force: true });
+				await mkdir(testDir, { recursive: true });
+				const fetcher = new DelayedFetcher(delays);
+				fetcher.setResponse("https://example.com", {
+					html: html("Root", ["/a", "/c", "/b"]),
+					finalUrl: "https://example.com",
+					contentType: "text/html",
+				});
+				// /a は /b にリダイレクトする
+				fetcher.setResponse("https://example.com/a", {
+					html: html("B"),
+					finalUrl: "https://example.com/b",
+					contentType: "text/html",
+				});
+				for (const name of ["b", "c"]) {
+					fetcher.setResponse(`https://example.com/${name}`, {
+						html: html(name.toUpperCase()),
+						finalUrl: `https://example.com/${name}`,
+						contentType: "text/html",
+					});
+				}
+				const fetchSpy = vi.spyOn(fetcher, "fetch");
+				await new Crawler({ ...baseConfig, concurrency: 2 }, fetcher).run();
+				const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+				return {
+					pages: indexData.pages.map((p: { url: string; aliases?: string[] }) => [
+						p.url,
+						p.aliases,
+					]),
+					fetched: fetchSpy.mock.calls.map(([url]) => url).sort(),
+				};
+			};
+
+			// /a が /c より先に応答する場合と後に応答する場合
+			const fast = await crawlWith(new Map([["https://example.com/c", 60]]));
+			const slow = await crawlWith(new Map([["https://example.com/a", 60]]));
+
+			expect(fast).toEqual(slow);
+			expect(fast.pages).toEqual([
+				["https://example.com", undefined],
+				["https://example.com/a", ["https://example.com/b"]],
+				["https://example.com/c", undefined],
+			]);
+			expect(fast.fetched).toContain("https://example.com/b");
+		});
+
+		it("should not exceed maxPages with multiple workers", async () => {
+			const fetcher = new DelayedFetcher(new Map());
+			setupSite(fetcher);
+
+			const crawler = new Crawler({ ...baseConfig, concurrency: 4, maxPages: 3 }, fetcher);
+			await crawler.run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.totalPages).toBe(3);
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				...childUrls.slice(0, 2),
+			]);
+		});
+	});
+
+	describe("crawl strategy", () => {
+		const setupTree = (): void => {
+			const pages: Record<string, string[]> = {
+				"https://example.com": ["https://example.com/a", "https://example.com/b"],
+				"https://example.com/a": ["https://example.com/a/1"],
+				"https://example.com/b": [],
+				"https://example.com/a/1": [],
+			};
+			for (const [url, links] of Object.entries(pages)) {
+				const anchors = links.map((link) => `<a href="${link}">${link}</a>`).join("");
+				mockFetcher.setResponse(url, {
+					html: `<html><head><title>${url}</title></head><body>${anchors}</body></html>`,
+					finalUrl: url,
+					contentType: "text/html",
+				});
+			}
+		};
+
+		const crawledUrls = async (): Promise<string[]> => {
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			return indexData.pages.map((p: { url: string }) => p.url);
+		};
+
+		it("should spend maxPages on top-level pages with bfs", async () => {
+			setupTree();
+			const crawler = new Crawler({ ...baseConfig, maxPages: 3, strategy: "bfs" }, mockFetcher);
+			await crawler.run();
+
+			expect(await crawledUrls()).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+				"https://example.com/b",
+			]);
+		});
+
+		it("should follow the first branch to the bottom with dfs", async () => {
+			setupTree();
+			const crawler = new Crawler({ ...baseConfig, maxPages: 3, strategy: "dfs" }, mockFetcher);
+			await crawler.run();
+
+			expect(await crawledUrls()).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+				"https://example.com/a/1",
+			]);
+		});
+	});
+
+	describe("sitemap", () => {
+		const sitemapXml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/docs/a</loc></url>
+  <url><loc>https://example.com/docs/b</loc></url>
+  <url><loc>https://example.com/blog/c</loc></url>
+  <url><loc>https://other.example.com/d</loc></url>
+</urlset>`;
+
+		const setupSite = (): void => {
+			mockFetcher.setResponse("https://example.com/robots.txt", {
+				html: "User-agent: *\nDisallow:\nSitemap: https://example.com/sitemap-main.xml",
+				finalUrl: "https://example.com/robots.txt",
+				contentType: "text/plain",
+			});
+			mockFetcher.setResponse("https://example.com/sitemap-main.xml", {
+				html: sitemapXml,
+				finalUrl: "https://example.com/sitemap-main.xml",
+				contentType: "application/xml",
+			});
+			mockFetcher.setResponse("https://example.com", {
+				html: '<html><head><title>Root</title></head><body><a href="https://example.com/linked">Linked</a></body></html>',
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			for (const path of ["/linked", "/docs/a", "/docs/b", "/blog/c"]) {
+				const url = `https://example.com${path}`;
+				mockFetcher.setResponse(url, {
+					html: `<html><head><title>${path}</title></head><body><a href="https://example.com/deep${path}">Deep</a></body></html>`,
+					finalUrl: url,
+					contentType: "text/html",
+				});
+			}
+		};
+
+		const crawledUrls = async (): Promise<string[]> => {
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			return indexData.pages.map((p: { url: string }) => p.url);
+		};
+
+		it("should add sitemap URLs from robots.txt to the frontier with seed", async () => {
+			setupSite();
+			const crawler = new Crawler({ ...baseConfig, maxDepth: 0, sitemap: "seed" }, mockFetcher);
+			await crawler.run();
+
+			expect(await crawledUrls()).toEqual([
+				"https://example.com",
+				"https://example.com/docs/a",
+				"https://example.com/docs/b",
+				"https://example.com/blog/c",
+			]);
+		});
+
+		it("should crawl only filtered sitemap URLs without following links with only", async () => {
+			setupSite();
+			const crawler = new Crawler(
+				{
+					...baseConfig,
+					sitemap: "only",
+					excludeMatchers: [
+						{ type: "regex", pattern: "/blog/", regex: /\/blog\//, rule: "--exclude /blog/" },
+					],
+				},
+				mockFetcher,
+			);
+			await crawler.run();
+
+			expect(await crawledUrls()).toEqual([
+				"https://example.com/docs/a",
+				"https://example.com/docs/b",
+			]);
+		});
+
+		it("should fall back to the start URL when the sitemap is empty with only", async () => {
+			mockFetcher.setResponse("https://example.com", {
+				html: '<html><head><title>Root</title></head><body><a href="https://example.com/linked">Linked</a></body></html>',
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const crawler = new Crawler({ ...baseConfig, sitemap: "only" }, mockFetcher);
+			await crawler.run();
+
+			expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("No crawlable URLs found"));
+			expect(await crawledUrls()).toEqual(["https://example.com"]);
+			warnSpy.mockRestore();
+		});
+	});
+
+	describe("multiple seeds", () => {
+		const page = (title: string, links: string[] = []): string =>
+			`<html><head><title>${title}</title></head><body>${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</body></html>`;
+
+		const setupSites = (): void => {
+			const responses: Record<string, string> = {
+				"https://example.com": page("Root", ["https://example.com/a", "https://third.com/x"]),
+				"https://example.com/a": page("A"),
+				"https://docs.example.org/start": page("Start", [
+					"https://docs.example.org/guide",
+					"https://docs.example.org/private/secret",
+				]),
+				"https://docs.example.org/guide": page("Guide"),
+				"https://docs.example.org/private/secret": page("Secret"),
+				"https://third.com/x": page("Third"),
+			};
+			for (const [url, html] of Object.entries(responses)) {
+				mockFetcher.setResponse(url, { html, finalUrl: url, contentType: "text/html" });
+			}
+			mockFetcher.setResponse("https://docs.example.org/robots.txt", {
+				html: "User-agent: *\nDisallow: /private",
+				finalUrl: "https://docs.example.org/robots.txt",
+				contentType: "text/plain",
+			});
+		};
+
+		it("should crawl every seed into one output and follow links on all seed hosts", async () => {
+			setupSites();
+			const seeds = ["https://example.com", "https://docs.example.org/start"];
+			const crawler = new Crawler({ ...baseConfig, seeds }, mockFetcher);
+			await crawler.run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://docs.example.org/start",
+				"https://example.com/a",
+				"https://docs.example.org/guide",
+			]);
+			expect(indexData.seeds).toEqual(seeds);
+			expect(indexData.pages[1].depth).toBe(0);
+		});
+
+		it("should follow links to allowed hosts and check each host's robots.txt", async () => {
+			setupSites();
+			mockFetcher.setResponse("https://example.com", {
+				html: page("Root", [
+					"https://docs.example.org/guide",
+					"https://docs.example.org/private/secret",
+					"https://third.com/x",
+				]),
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			const fetchSpy = vi.spyOn(mockFetcher, "fetch");
+
+			const config: CrawlConfig = { ...baseConfig, allowedHosts: ["*.example.org"] };
+			await new Crawler(config, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://docs.example.org/guide",
+			]);
+			const fetched = fetchSpy.mock.calls.map(([url]) => url);
+			expect(fetched.filter((url) => url === "https://docs.example.org/robots.txt")).toHaveLength(
+				1,
+			);
+			expect(fetched).not.toContain("https://docs.example.org/private/secret");
+		});
+	});
+
+	describe("URL canonicalization", () => {
+		const page = (title: string, head = "", links: string[] = [], body = ""): string =>
+			`<html><head><title>${title}</title>${head}</head><body>${body}${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</body></html>`;
+
+		const setResponses = (responses: Record<string, string>): void => {
+			for (const [url, html] of Object.entries(responses)) {
+				mockFetcher.setResponse(url, { html, finalUrl: url, contentType: "text/html" });
+			}
+		};
+
+		const readIndex = async (): Promise<{
+			pages: { url: string; canonicalUrl?: string; aliases?: string[] }[];
+			skipped?: { url: string; reason: string }[];
+		}> => JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+
+		const readPages = async () => (await readIndex()).pages;
+
+		it("should not crawl tracking-parameter and index.html variants separately", async () => {
+			setResponses({
+				"https://example.com": page("Root", "", [
+					"/docs/?utm_source=nav",
+					"/docs/index.html",
+					"/docs/",
+				]),
+				"https://example.com/docs/": page("Docs"),
+			});
+			const fetchSpy = vi.spyOn(mockFetcher, "fetch");
+
+			await new Crawler(baseConfig, mockFetcher).run();
+
+			expect((await readPages()).map((p) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/docs/",
+			]);
+			expect(fetchSpy).toHaveBeenCalledTimes(3); // robots.txt, root, docs
+		});
+
+		it("should record pages whose canonical was already saved with the same content as aliases", async () => {
+			const body = "<p>Install the package and run the command.</p>";
+			setResponses({
+				"https://example.com": page("Root", "", ["/guide?page=1", "/guide-print"]),
+				// 正規URLのページはリンクを辿らない（エイリアスのページからリンクを辿ることを確認する）
+				"https://example.com/guide?page=1": page(
+					"Guide",
+					'<meta name="robots" content="nofollow"><link rel="canonical" href="https://example.com/guide">',
+					["/guide/appendix"],
+					body,
+				),
+				"https://example.com/guide-print": page(
+					"Guide (print)",
+					'<link rel="canonical" href="/guide">',
+					["/guide/appendix"],
+					body,
+				),
+				"https://example.com/guide/appendix": page("Appendix", "", [], "<p>Appendix</p>"),
+			});
+
+			await new Crawler(baseConfig, mockFetcher).run();
+
+			const pages = await readPages();
+			expect(pages.map((p) => [p.url, p.canonicalUrl, p.aliases])).toEqual([
+				["https://example.com", "https://example.com/", undefined],
+				[
+					"https://example.com/guide?page=1",
+					"https://example.com/guide",
+					["https://example.com/guide-print"],
+				],
+				["https://example.com/guide/appendix", "https://example.com/guide/appendix", undefined],
+			]);
+		});
+
+		it("should save pages with different content even if they declare a canonical owned by another page", async () => {
+			setResponses({
+				"https://example.com": page("Root", "", ["/a", "/b"], "<p>Home</p>"),
+				"https://example.com/a": page("A", '<link rel="canonical" href="/">', ["/a1"], "<p>A</p>"),
+				"https://example.com/b": page("B", '<link rel="canonical" href="/">', ["/b1"], "<p>B</p>"),
+				"https://example.com/a1": page("A1", '<link rel="canonical" href="/">', [], "<p>A1</p>"),
+				"https://example.com/b1": page("B1", '<link rel="canonical" href="/">', [], "<p>B1</p>"),
+			});
+
+			await new Crawler(baseConfig, mockFetcher).run();
+
+			expect((await readPages()).map((p) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+				"https://example.com/b",
+				"https://example.com/a1",
+				"https://example.com/b1",
+			]);
+		});
+
+		it("should record canonical duplicates of unsaved pages as skipped and follow their links", async () => {
+			const body = "<p>Draft</p>";
+			setResponses({
+				"https://example.com": page("Root", "", ["/draft", "/draft?v=2"], "<p>Home</p>"),
+				"https://example.com/draft": page(
+					"Draft",
+					'<meta name="robots" content="noindex, nofollow"><link rel="canonical" href="/draft">',
+					["/published"],
+					body,
+				),
+				"https://example.com/draft?v=2": page(
+					"Draft",
+					'<link rel="canonical" href="/draft">',
+					["/published"],
+					body,
+				),
+				"https://example.com/published": page("Published", "", [], "<p>Published</p>"),
+			});
+
+			await new Crawler(baseConfig, mockFetcher).run();
+
+			const index = await readIndex();
+			expect(index.pages.map((p) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/published",
+			]);
+			expect(index.skipped).toEqual([
+				{ url: "https://example.com/draft", reason: "noindex (meta robots)" },
+				{
+					url: "https://example.com/draft?v=2",
+					reason: "duplicate of canonical URL (https://example.com/draft)",
+				},
+			]);
+		});
+
+		it("should ignore rel=canonical when honorCanonical is disabled", async () => {
+			setResponses({
+				"https://example.com": page("Root", "", ["/guide", "/guide-print"]),
+				"https://example.com/guide": page("Guide"),
+				"https://example.com/guide-print": page("Print", '<link rel="canonical" href="/guide">'),
+			});
+			const config = {
+				...baseConfig,
+				urlPolicy: { ...baseConfig.urlPolicy, honorCanonical: false },
+			};
+
+			await new Crawler(config, mockFetcher).run();
+
+			const pages = await readPages();
+			expect(pages.map((p) => p.canonicalUrl)).toEqual([
+				"https://example.com/",
+				"https://example.com/guide",
+				"https://example.com/guide-print",
+			]);
+		});
+	});
+
+	describe("duplicate content", () => {
+		it("should record pages with the same content as aliases without saving files", async () => {
+			const body = "<p>Install the package and run the command.</p>";
+			const pages: Record<string, string> = {
+				"https://example.com": `<html><head><title>Root</title></head><body><p>Home</p><a href="/latest/">latest</a><a href="/v3/">v3</a></body></html>`,
+				"https://example.com/latest/": `<html><head><title>Guide</title></head><body>${body}</body></html>`,
+				"https://example.com/v3/": `<html><head><title>Guide v3</title></head><body>${body}</body></html>`,
+			};
+			for (const [url, html] of Object.entries(pages)) {
+				mockFetcher.setResponse(url, { html, finalUrl: url, contentType: "text/html" });
+			}
+
+			await new Crawler({ ...baseConfig, merge: true }, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/latest/",
+			]);
+			expect(indexData.pages[1].aliases).toEqual(["https://example.com/v3/"]);
+			expect(await readdir(join(testDir, "pages"))).toHaveLength(2);
+
+			const fullMd = await readFile(join(testDir, "full.md"), "utf-8");
+			expect(fullMd.match(/Install the package/g)).toHaveLength(1);
+		});
+
+		const setupVersionedSite = (): void => {
+			const body = Array.from(
+				{ length: 30 },
+				(_, i) => `<p>Step ${i} of the guide describes how to configure option ${i}.</p>`,
+			).join("");
+			const pages: Record<string, string> = {
+				"https://example.com": `<html><head><title>Root</title></head><body><p>Home</p><a href="/v1/">v1</a><a href="/v2/">v2</a></body></html>`,
+				"https://example.com/v1/": `<html><head><title>Guide</title></head><body>${body}<p>Version 1.0</p></body></html>`,
+				"https://example.com/v2/": `<html><head><title>Guide</title></head><body>${body}<p>Version 2.0</p></body></html>`,
+			};
+			for (const [url, html] of Object.entries(pages)) {
+				mockFetcher.setResponse(url, { html, finalUrl: url, contentType: "text/html" });
+			}
+		};
+
+		it("should record near-duplicate pages as aliases with --dedupe near", async () => {
+			setupVersionedSite();
+
+			await new Crawler({ ...baseConfig, dedupe: "near" }, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/v1/",
+			]);
+			expect(indexData.pages[1].aliases).toEqual(["https://example.com/v2/"]);
+			expect(indexData.pages[1].simhash).toMatch(/^[0-9a-f]{16}$/);
+		});
+
+		it("should save every page with --dedupe off", async () => {
+			setupVersionedSite();
+			mockFetcher.setResponse("https://example.com/v2/", {
+				html: (await mockFetcher.fetch("https://example.com/v1/"))?.html ?? "",
+				finalUrl: "https://example.com/v2/",
+				contentType: "text/html",
+			});
+
+			await new Crawler({ ...baseConfig, dedupe: "off" }, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages).toHaveLength(3);
+			expect(indexData.pages[1].aliases).toBeUndefined();
+			expect(indexData.pages[1].simhash).toBeUndefined();
+		});
+	});
+
+	describe("resume", () => {
+		const siteUrls = ["a", "b", "c"].map((name) => `https://example.com/${name}`);
+
+		const setupSite = (fetcher: MockFetcher): void => {
+			const links = siteUrls.map((url) => `<a href="${url}">${url}</a>`).join("");
+			fetcher.setResponse("https://example.com", {
+				html: `<html><head><title>Root</title></head><body>${links}</body></html>`,
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			for (const url of siteUrls) {
+				fetcher.setResponse(url, {
+					html: `<html><head><title>${url}</title></head><body><p>Content of ${url}</p></body></html>`,
+					finalUrl: url,
+					contentType: "text/html",
+				});
+			}
+		};
+
+		/** 指定URLの取得中にシャットダウンし、応答を返さない Fetcher */
+		class InterruptingFetcher extends MockFetcher {
+			onInterrupt: () => Promise<void> = async () => {};
+
+			constructor(private interruptAt: string) {
+				super();
+			}
+
+			async fetch(url: string): Promise<FetchResult | null> {
+				if (url === this.interruptAt) {
+					await this.onInterrupt();
+					return new Promise(() => {});
+				}
+				return super.fetch(url);
+			}
+		}
+
+		it("should continue from the checkpoint saved on shutdown", async () => {
+			const firstFetcher = new InterruptingFetcher("https://example.com/b");
+			setupSite(firstFetcher);
+			const firstCrawler = new Crawler(baseConfig, firstFetcher);
+			firstFetcher.onInterrupt = () => firstCrawler.cleanup();
+			void firstCrawler.run();
+			await vi.waitFor(() =>
+				expect(existsSync(join(testDir, ".crawl-checkpoint.json"))).toBe(true),
+			);
+
+			const checkpoint = JSON.parse(
+				await readFile(join(testDir, ".crawl-checkpoint.json"), "utf-8"),
+			);
+			expect(checkpoint.seeds).toEqual(["https://example.com"]);
+			expect(checkpoint.queue).toEqual([
+				{ url: "https://example.com/b", depth: 1 },
+				{ url: "https://example.com/c", depth: 1 },
+			]);
+			expect(checkpoint.visited).toEqual(["https://example.com", "https://example.com/a"]);
+			expect(checkpoint.attemptedCount).toBe(2);
+
+			const secondFetcher = new MockFetcher();
+			setupSite(secondFetcher);
+			const fetchSpy = vi.spyOn(secondFetcher, "fetch");
+			const secondCrawler = new Crawler({ ...baseConfig, resume: true }, secondFetcher);
+			await secondCrawler.run();
+
+			const fetched = fetchSpy.mock.calls.map(([url]) => url);
+			expect(fetched).not.toContain("https://example.com");
+			expect(fetched).not.toContain("https://example.com/a");
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				...siteUrls,
+			]);
+			expect(indexData.pages[2].file).toMatch(/page-003/);
+			expect(existsSync(join(testDir, ".crawl-checkpoint.json"))).toBe(false);
+		});
+
+		it("should start a new crawl when no checkpoint exists", async () => {
+			setupSite(mockFetcher);
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const crawler = new Crawler({ ...baseConfig, resume: true }, mockFetcher);
+			await crawler.run();
+
+			expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("No checkpoint found"));
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.totalPages).toBe(4);
+			warnSpy.mockRestore();
+		});
+
+		it("should reject a checkpoint saved for a different start URL", async () => {
+			await writeFile(
+				join(testDir, ".crawl-checkpoint.json"),
+				JSON.stringify({
+					startUrl: "https://other.example.com",
+					savedAt: "2025-01-01T00:00:00.000Z",
+					queue: [],
+					visited: [],
+					failed: {},
+					attemptedCount: 0,
+				}),
+			);
+
+			const crawler = new Crawler({ ...baseConfig, resume: true }, mockFetcher);
+			await expect(crawler.run()).rejects.toThrow("different URL");
+		});
+
+		it("should reject a checkpoint saved for a different set of seed URLs", async () => {
+			await writeFile(
+				join(testDir, ".crawl-checkpoint.json"),
+				JSON.stringify({
+					startUrl: "https://example.com",
+					seeds: ["https://example.com", "https://example.com/old-section"],
+					savedAt: "2025-01-01T00:00:00.000Z",
+					queue: [],
+					visited: [],
+					failed: {},
+					attemptedCount: 0,
+				}),
+			);
+
+			const crawler = new Crawler(
+				{
+					...baseConfig,
+					seeds: ["https://example.com", "https://example.com/new-section"],
+					resume: true,
+				},
+				mockFetcher,
+			);
+			await expect(crawler.run()).rejects.toThrow("different seed URLs");
+		});
+
+		it("should resume a checkpoint saved with the same seed URLs in a different order", async () => {
+			setupSite(mockFetcher);
+			await writeFile(
+				join(testDir, ".crawl-checkpoint.json"),
+				JSON.stringify({
+					startUrl: "https://example.com/a",
+					seeds: ["https://example.com/a", "https://example.com"],
+					savedAt: "2025-01-01T00:00:00.000Z",
+					queue: [{ url: "https://example.com", depth: 0 }],
+					visited: [],
+					failed: {},
+					attemptedCount: 0,
+				}),
+			);
+
+			const crawler = new Crawler(
+				{ ...baseConfig, seeds: ["https://example.com", "https://example.com/a"], resume: true },
+				mockFetcher,
+			);
+			await crawler.run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toContain("https://example.com");
+		});
+	});
+
+	describe("login", () => {
+		const loginConfig = (): CrawlConfig => ({
+			...baseConfig,
+			loginScript: "/work/login.js",
+			loginUrl: "https://example.com/login",
+		});
+
+		it("should log in once before fetching pages", async () => {
+			vi.spyOn(console, "log").mockImplementation(() => {});
+			const calls: string[] = [];
+			const fetcher: Fetcher = {
+				login: vi.fn(async () => {
+					calls.push("login");
+				}),
+				fetch: vi.fn(async (url: string) => {
+					calls.push(url);
+					return null;
+				}),
+			};
+
+			await new Crawler(loginConfig(), fetcher).run();
+
+			expect(fetcher.login).toHaveBeenCalledTimes(1);
+			expect(calls[0]).toBe("login");
+		});
+
+		it("should stop the crawl with AuthError when redirected to the login page", async () => {
+			vi.spyOn(console, "log").mockImplementation(() => {});
+			const fetcher: Fetcher = {
+				login: vi.fn().mockResolvedValue(undefined),
+				fetch: vi.fn(async (url: string) =>
+					url.endsWith("robots.txt")
+						? null
+						: {
+								html: "<html><body>Sign in</body></html>",
+								finalUrl: "https://example.com/login?next=%2F",
+								contentType: "text/html",
+							},
+				),
+			};
+
+			const error = await new Crawler(loginConfig(), fetcher).run().catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(AuthError);
+			expect((error as AuthError).url).toBe("https://example.com");
+			expect(existsSync(join(testDir, "index.json"))).toBe(false);
+		});
+	});
+
+	describe("scope filtering", () => {
+		it("should only crawl the same host with the host scope", async () => {
 			const rootHtml = `
         <html>
           <head><title>Root</title></head>
@@ -292,7 +1100,11 @@ info:
 				contentType: "application/yaml",
 			});
 
-			const config = { ...baseConfig, startUrl: "https://example.com/openapi.yaml" };
+			const config = {
+				...baseConfig,
+				startUrl: "https://example.com/openapi.yaml",
+				seeds: ["https://example.com/openapi.yaml"],
+			};
 			const crawler = new Crawler(config, mockFetcher);
 			await crawler.run();
 
@@ -316,7 +1128,7 @@ info:
 			const existingIndex = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 1,
 				pages: [
 					{
@@ -332,6 +1144,7 @@ info:
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "2e6f9e5e0b23e5f5a1c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -423,6 +1236,59 @@ info:
 		});
 	});
 
+	describe("meta robots and X-Robots-Tag", () => {
+		const page = (title: string, head: string, links: string[]): string =>
+			`<html><head><title>${title}</title>${head}</head><body><p>${title} content</p>${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</body></html>`;
+
+		const setupSite = (): void => {
+			const responses: Record<string, { html: string; robotsTag?: string }> = {
+				"https://example.com": { html: page("Root", "", ["/hidden", "/closed", "/tagged"]) },
+				"https://example.com/hidden": {
+					html: page("Hidden", '<meta name="robots" content="noindex">', ["/from-hidden"]),
+				},
+				"https://example.com/closed": {
+					html: page("Closed", '<meta name="robots" content="nofollow">', ["/from-closed"]),
+				},
+				"https://example.com/tagged": {
+					html: page("Tagged", "", ["/from-tagged"]),
+					robotsTag: "noindex, nofollow",
+				},
+				"https://example.com/from-hidden": { html: page("From hidden", "", []) },
+				"https://example.com/from-closed": { html: page("From closed", "", []) },
+				"https://example.com/from-tagged": { html: page("From tagged", "", []) },
+			};
+			for (const [url, { html, robotsTag }] of Object.entries(responses)) {
+				mockFetcher.setResponse(url, { html, finalUrl: url, contentType: "text/html", robotsTag });
+			}
+		};
+
+		it("should not save noindex pages and not follow links of nofollow pages", async () => {
+			setupSite();
+			await new Crawler({ ...baseConfig, maxDepth: 3 }, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/closed",
+				"https://example.com/from-hidden",
+			]);
+			expect(indexData.skipped).toEqual([
+				{ url: "https://example.com/hidden", reason: "noindex (meta robots)" },
+				{ url: "https://example.com/tagged", reason: "noindex (X-Robots-Tag)" },
+			]);
+		});
+
+		it("should save and follow everything with --no-meta-robots", async () => {
+			setupSite();
+			const config: CrawlConfig = { ...baseConfig, maxDepth: 3, respectMetaRobots: false };
+			await new Crawler(config, mockFetcher).run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(indexData.pages).toHaveLength(7);
+			expect(indexData.skipped).toBeUndefined();
+		});
+	});
+
 	describe("robots.txt handling", () => {
 		it("should skip URLs blocked by robots.txt", async () => {
 			// robots.txt のモックレスポンス
@@ -458,6 +1324,54 @@ info:
 			// Blocked page should not be crawled
 			expect(urls).not.toContain("https://example.com/blocked");
 		});
+
+		it("should apply the group for the configured robots agent", async () => {
+			mockFetcher.setResponse("https://example.com/robots.txt", {
+				html: "User-agent: DocsBot\nDisallow: /internal\n\nUser-agent: *\nDisallow: /",
+				finalUrl: "https://example.com/robots.txt",
+				contentType: "text/plain",
+			});
+			mockFetcher.setResponse("https://example.com", {
+				html: '<html><head><title>Root</title></head><body><a href="/internal">I</a></body></html>',
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+
+			const crawler = new Crawler({ ...baseConfig, robotsAgent: "docsbot" }, mockFetcher);
+			await crawler.run();
+
+			const indexData = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			const urls = indexData.pages.map((p: { url: string }) => p.url);
+			expect(urls).toEqual(["https://example.com"]);
+		});
+
+		it("should use Crawl-delay as a lower bound on the request delay", async () => {
+			mockFetcher.setResponse("https://example.com/robots.txt", {
+				html: "User-agent: *\nCrawl-delay: 2",
+				finalUrl: "https://example.com/robots.txt",
+				contentType: "text/plain",
+			});
+			mockFetcher.setResponse("https://example.com", {
+				html: '<html><head><title>Root</title></head><body><a href="/a">A</a></body></html>',
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+			});
+			mockFetcher.setResponse("https://example.com/a", {
+				html: "<html><head><title>A</title></head><body>A</body></html>",
+				finalUrl: "https://example.com/a",
+				contentType: "text/html",
+			});
+
+			const crawler = new Crawler({ ...baseConfig, delay: 500 }, mockFetcher);
+			// @ts-expect-error - private property access for testing
+			const sleepSpy = vi.spyOn(crawler.runtime, "sleep").mockResolvedValue(undefined);
+			await crawler.run();
+
+			// リクエスト開始の間隔を Crawl-delay に保つため、前回のリクエストからの経過時間を差し引いて待つ
+			const waits = sleepSpy.mock.calls.map(([ms]) => ms);
+			expect(Math.max(...waits)).toBeGreaterThan(1500);
+			expect(Math.max(...waits)).toBeLessThanOrEqual(2000);
+		});
 	});
 
 	describe("diff mode unchanged page", () => {
@@ -496,6 +1410,48 @@ info:
 			expect(indexData.pages[0].hash).toBe(hash);
 			expect(indexData.pages[0].url).toBe("https://example.com");
 		});
+
+		it("should send conditional requests and follow stored links on 304", async () => {
+			mockFetcher.setResponse("https://example.com", {
+				html: '<html><head><title>Root</title></head><body><a href="/a">A</a></body></html>',
+				finalUrl: "https://example.com",
+				contentType: "text/html",
+				etag: '"v1"',
+			});
+			mockFetcher.setResponse("https://example.com/a", {
+				html: "<html><head><title>A</title></head><body><p>A</p></body></html>",
+				finalUrl: "https://example.com/a",
+				contentType: "text/html",
+			});
+			await new Crawler(baseConfig, mockFetcher).run();
+
+			const indexPath = join(testDir, "index.json");
+			const initial = JSON.parse(await readFile(indexPath, "utf-8"));
+			expect(initial.pages[0].etag).toBe('"v1"');
+
+			const originalFetch = mockFetcher.fetch.bind(mockFetcher);
+			const fetchSpy = vi
+				.spyOn(mockFetcher, "fetch")
+				.mockImplementation(async (url: string, validators?: CacheValidators) => {
+					if (validators?.etag === '"v1"') {
+						return { html: "", finalUrl: url, contentType: "text/html", notModified: true };
+					}
+					return originalFetch(url);
+				});
+			await new Crawler({ ...baseConfig, diff: true }, mockFetcher).run();
+
+			expect(fetchSpy).toHaveBeenCalledWith("https://example.com", { etag: '"v1"' });
+			// 304 のページは前回の index.json のリンクを辿る
+			expect(fetchSpy).toHaveBeenCalledWith("https://example.com/a", undefined);
+			const indexData = JSON.parse(await readFile(indexPath, "utf-8"));
+			expect(indexData.pages.map((p: { url: string }) => p.url).sort()).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+			]);
+			const root = indexData.pages.find((p: { url: string }) => p.url === "https://example.com");
+			expect(root.hash).toBe(initial.pages[0].hash);
+			expect(root.etag).toBe('"v1"');
+		});
 	});
 
 	describe("maxPages limit", () => {
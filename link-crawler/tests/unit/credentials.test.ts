@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildBrowserCredentialsCode,
+	getCredentialHeaders,
+	hasCredentials,
+	isCredentialHost,
+	isLoginPage,
+	isLoginRedirect,
+	parseCookieJar,
+} from "../../src/crawler/credentials.js";
+import type { CrawlConfig, RequestCookie } from "../../src/types.js";
+
+/** 認証情報の判定に使う設定だけを持つ CrawlConfig */
+function createConfig(overrides: Partial<CrawlConfig> = {}): CrawlConfig {
+	return {
+		seeds: ["https://docs.example.com/guide/"],
+		allowedHosts: [],
+		headers: {},
+		cookies: [],
+		...overrides,
+	} as CrawlConfig;
+}
+
+const cookie = (overrides: Partial<RequestCookie>): RequestCookie => ({
+	name: "session",
+	value: "abc",
+	domain: "docs.example.com",
+	path: "/",
+	secure: false,
+	...overrides,
+});
+
+describe("isCredentialHost", () => {
+	it("should accept seed hosts and --allow-host hosts only", () => {
+		const config = createConfig({ allowedHosts: ["*.cdn.example.com"] });
+
+		expect(isCredentialHost("https://docs.example.com/other", config)).toBe(true);
+		expect(isCredentialHost("https://a.cdn.example.com/x", config)).toBe(true);
+		expect(isCredentialHost("https://example.com/", config)).toBe(false);
+		expect(isCredentialHost("not a url", config)).toBe(false);
+	});
+});
+
+describe("getCredentialHeaders", () => {
+	it("should send custom headers only to credential hosts", () => {
+		const config = createConfig({ headers: { Authorization: "Bearer t" } });
+
+		expect(getCredentialHeaders("https://docs.example.com/a", config)).toEqual({
+			Authorization: "Bearer t",
+		});
+		expect(getCredentialHeaders("https://evil.example.net/", config)).toEqual({});
+	});
+
+	it("should send cookies matching domain, path and secure", () => {
+		const config = createConfig({
+			cookies: [
+				cookie({ name: "a" }),
+				cookie({ name: "b", domain: ".example.com" }),
+				cookie({ name: "c", path: "/admin" }),
+				cookie({ name: "d", secure: true }),
+			],
+		});
+
+		expect(getCredentialHeaders("http://docs.example.com/guide", config)).toEqual({
+			Cookie: "a=abc; b=abc",
+		});
+		expect(getCredentialHeaders("https://docs.example.com/admin/users", config).Cookie).toBe(
+			"a=abc; b=abc; c=abc; d=abc",
+		);
+		expect(getCredentialHeaders("https://api.example.com/", config).Cookie).toBe("b=abc");
+		expect(getCredentialHeaders("https://docs.example.com/administrator", config).Cookie).toBe(
+			"a=abc; b=abc; d=abc",
+		);
+	});
+
+	it("should append cookies to a Cookie header given with --header", () => {
+		const config = createConfig({ headers: { cookie: "x=1" }, cookies: [cookie({})] });
+		expect(getCredentialHeaders("https://docs.example.com/", config)).toEqual({
+			cookie: "x=1; session=abc",
+		});
+	});
+});
+
+describe("hasCredentials", () => {
+	it("should be true when headers or cookies are set", () => {
+		expect(hasCredentials(createConfig())).toBe(false);
+		expect(hasCredentials(createConfig({ headers: { "X-Token": "t" } }))).toBe(true);
+		expect(hasCredentials(createConfig({ cookies: [cookie({})] }))).toBe(true);
+	});
+});
+
+describe("buildBrowserCredentialsCode", () => {
+	it("should embed cookies, lowercase headers and target hosts", () => {
+		const code = buildBrowserCredentialsCode(
+			createConfig({
+				headers: { Authorization: "Bearer t" },
+				cookies: [cookie({})],
+				allowedHosts: ["api.example.com"],
+			}),
+		);
+
+		expect(code).toContain("context.addCookies(cookies)");
+		expect(code).toContain('{"authorization":"Bearer t"}');
+		expect(code).toContain('["docs.example.com"]');
+		expect(code).toContain('["api.example.com"]');
+	});
+});
+
+describe("parseCookieJar", () => {
+	const now = Date.UTC(2026, 0, 1);
+	const future = now / 1000 + 3600;
+	const past = now / 1000 - 3600;
+
+	it("should parse Netscape cookie files", () => {
+		const content = [
+			"# Netscape HTTP Cookie File",
+			"",
+			`.example.com\tTRUE\t/\tTRUE\t${future}\tsession\tabc`,
+			`#HttpOnly_docs.example.com\tFALSE\t/docs\tFALSE\t0\ttoken\tx=y`,
+			`example.com\tFALSE\t/\tFALSE\t${past}\told\tgone`,
+		].join("\n");
+
+		expect(parseCookieJar(content, now)).toEqual([
+			{ name: "session", value: "abc", domain: ".example.com", path: "/", secure: true },
+			{ name: "token", value: "x=y", domain: "docs.example.com", path: "/docs", secure: false },
+		]);
+	});
+
+	it("should reject malformed Netscape lines", () => {
+		expect(() => parseCookieJar("example.com\tTRUE\t/\n", now)).toThrowError(/line 1/);
+	});
+
+	it("should parse JSON cookie arrays (browser extension export)", () => {
+		const content = JSON.stringify([
+			{ name: "a", value: "1", domain: ".example.com", hostOnly: true, expirationDate: future },
+			{ name: "b", value: "2", domain: "example.com", hostOnly: false, secure: true },
+			{ name: "c", value: "3", domain: "example.com", expirationDate: past },
+		]);
+
+		expect(parseCookieJar(content, now)).toEqual([
+			{ name: "a", value: "1", domain: "example.com", path: "/", secure: false },
+			{ name: "b", value: "2", domain: ".example.com", path: "/", secure: true },
+		]);
+	});
+
+	it("should parse Playwright storage state", () => {
+		const content = JSON.stringify({
+			cookies: [{ name: "a", value: "1", domain: ".example.com", path: "/docs", expires: -1 }],
+			origins: [],
+		});
+
+		expect(parseCookieJar(content, now)).toEqual([
+			{ name: "a", value: "1", domain: ".example.com", path: "/docs", secure: false },
+		]);
+	});
+
+	it("should not include the file content in JSON errors", () => {
+		expect(() => parseCookieJar('[{"name": "a", "value": "secret-value",', now)).toThrowError(
+			/^invalid JSON$/,
+		);
+		expect(() => parseCookieJar('[{"value": "secret-value"}]', now)).toThrowError(
+			/cookie 1: name, value and domain are required/,
+		);
+	});
+});
+
+describe("isLoginPage / isLoginRedirect", () => {
+	const loginUrl = "https://sso.example.com/login";
+
+	it("should compare origin and path only", () => {
+		expect(isLoginPage("https://sso.example.com/login?next=/docs", loginUrl)).toBe(true);
+		expect(isLoginPage("https://sso.example.com/logout", loginUrl)).toBe(false);
+		expect(isLoginPage("about:blank", loginUrl)).toBe(false);
+	});
+
+	it("should detect redirects from other pages to the login page", () => {
+		expect(isLoginRedirect("https://docs.example.com/a", `${loginUrl}?next=/a`, loginUrl)).toBe(
+			true,
+		);
+		expect(
+			isLoginRedirect("https://docs.example.com/a", "https://docs.example.com/a", loginUrl),
+		).toBe(false);
+		expect(isLoginRedirect(loginUrl, loginUrl, loginUrl)).toBe(false);
+		expect(isLoginRedirect("https://docs.example.com/a", loginUrl, null)).toBe(false);
+	});
+});
@@ -10,6 +10,7 @@ import { describe, expect, it } from "vitest";
 import { EXIT_CODES } from "../../src/constants.js";
 import { handleError } from "../../src/error-handler.js";
 import {
+	AuthError,
 	ConfigError,
 	CrawlError,
 	DependencyError,
@@ -83,6 +84,18 @@ describe("Error Handler", () => {
 		});
 	});
 
+	describe("AuthError handling", () => {
+		it("returns correct message and exit code for AuthError", () => {
+			const error = new AuthError("Login script failed", "https://example.com/login");
+			const result = handleError(error);
+
+			expect(result.message).toBe(
+				"✗ Authentication error at https://example.com/login: Login script failed",
+			);
+			expect(result.exitCode).toBe(EXIT_CODES.AUTH_ERROR);
+		});
+	});
+
 	describe("TimeoutError handling", () => {
 		it("returns correct message and exit code for TimeoutError", () => {
 			const error = new TimeoutError("Page load timeout", 30000);
@@ -1,9 +1,11 @@
 import { describe, expect, it } from "vitest";
 import {
+	AuthError,
 	ConfigError,
 	CrawlError,
 	DependencyError,
 	FetchError,
+	HttpStatusError,
 	TimeoutError,
 } from "../../src/errors.js";
 
@@ -87,6 +89,38 @@ describe("FetchError", () => {
 	});
 });
 
+describe("HttpStatusError", () => {
+	it("should create http status error with status and retry-after", () => {
+		const error = new HttpStatusError("https://example.com", 503, 5000);
+
+		expect(error.message).toBe("HTTP 503");
+		expect(error.url).toBe("https://example.com");
+		expect(error.status).toBe(503);
+		expect(error.retryAfterMs).toBe(5000);
+		expect(error.code).toBe("FETCH_ERROR");
+		expect(error.name).toBe("HttpStatusError");
+	});
+
+	it("should default retryAfterMs to null and inherit from FetchError", () => {
+		const error = new HttpStatusError("https://example.com", 500);
+
+		expect(error.retryAfterMs).toBeNull();
+		expect(error).toBeInstanceOf(FetchError);
+	});
+});
+
+describe("AuthError", () => {
+	it("should create auth error with url", () => {
+		const error = new AuthError("Redirected to the login page", "https://example.com/docs");
+
+		expect(error.message).toBe("Redirected to the login page");
+		expect(error.url).toBe("https://example.com/docs");
+		expect(error.code).toBe("AUTH_ERROR");
+		expect(error.name).toBe("AuthError");
+		expect(error).toBeInstanceOf(CrawlError);
+	});
+});
+
 describe("ConfigError", () => {
 	it("should create config error with configKey", () => {
 		const error = new ConfigError("Invalid value", "maxDepth");
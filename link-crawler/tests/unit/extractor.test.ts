@@ -151,6 +151,24 @@ describe("extractMetadata", () => {
 		expect(metadata.author).toBeNull();
 		expect(metadata.ogTitle).toBeNull();
 		expect(metadata.ogType).toBeNull();
+		expect(metadata.robots).toBeNull();
+	});
+
+	it("should join robots meta tags regardless of name case", () => {
+		const html = `
+			<!DOCTYPE html>
+			<html>
+				<head>
+					<meta name="robots" content="noindex">
+					<meta name="ROBOTS" content=" nofollow ">
+					<meta name="googlebot" content="noarchive">
+				</head>
+				<body></body>
+			</html>
+		`;
+		const metadata = extractMetadata(new JSDOM(html));
+
+		expect(metadata.robots).toBe("noindex, nofollow");
 	});
 
 	it("should extract all metadata at once", () => {
@@ -178,6 +196,7 @@ describe("extractMetadata", () => {
 			author: "Author Name",
 			ogTitle: "OG Title",
 			ogType: "website",
+			robots: null,
 		});
 	});
 
@@ -0,0 +1,137 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FETCH_CACHE } from "../../src/constants.js";
+import { RecordingFetcher, ReplayFetcher } from "../../src/crawler/fetch-cache.js";
+import { FetchError, HttpStatusError } from "../../src/errors.js";
+import type { Fetcher, FetchResult } from "../../src/types.js";
+
+const PAGE: FetchResult = {
+	html: "<html><body><h1>Guide</h1></body></html>",
+	finalUrl: "https://example.com/guide/",
+	contentType: "text/html",
+	fetchedBy: "http",
+	robotsTag: "nofollow",
+	etag: '"v1"',
+	status: 200,
+};
+
+/** URLごとの固定レスポンスを返すFetcherを生成 */
+function createFetcher(responses: Record<string, FetchResult | null>): Fetcher & {
+	fetch: ReturnType<typeof vi.fn>;
+	close: ReturnType<typeof vi.fn>;
+} {
+	return {
+		fetch: vi.fn(async (url: string) => responses[url] ?? null),
+		close: vi.fn().mockResolvedValue(undefined),
+	};
+}
+
+describe("RecordingFetcher / ReplayFetcher", () => {
+	let cacheDir: string;
+
+	beforeEach(() => {
+		cacheDir = mkdtempSync(join(tmpdir(), "crawl-fetch-cache-"));
+	});
+
+	afterEach(() => {
+		rmSync(cacheDir, { recursive: true, force: true });
+	});
+
+	it("should replay a recorded result without calling the original fetcher", async () => {
+		const inner = createFetcher({ "https://example.com/guide": PAGE });
+		const recorder = new RecordingFetcher(inner, cacheDir);
+
+		expect(await recorder.fetch("https://example.com/guide")).toEqual(PAGE);
+
+		const replayed = await new ReplayFetcher(cacheDir).fetch("https://example.com/guide");
+		expect(replayed).toEqual(PAGE);
+		expect(inner.fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("should pass cache validators to the wrapped fetcher", async () => {
+		const inner = createFetcher({});
+		await new RecordingFetcher(inner, cacheDir).fetch("https://example.com/", { etag: '"v1"' });
+		expect(inner.fetch).toHaveBeenCalledWith("https://example.com/", { etag: '"v1"' });
+	});
+
+	it("should store identical bodies only once", async () => {
+		const inner = createFetcher({ "https://example.com/a": PAGE, "https://example.com/b": PAGE });
+		const recorder = new RecordingFetcher(inner, cacheDir);
+
+		await recorder.fetch("https://example.com/a");
+		await recorder.fetch("https://example.com/b");
+
+		expect(readdirSync(join(cacheDir, FETCH_CACHE.ENTRIES_DIR))).toHaveLength(2);
+		expect(readdirSync(join(cacheDir, FETCH_CACHE.OBJECTS_DIR))).toHaveLength(1);
+	});
+
+	it("should replay skipped pages as null", async () => {
+		const recorder = new RecordingFetcher(createFetcher({}), cacheDir);
+		await recorder.fetch("https://example.com/missing");
+
+		expect(readdirSync(join(cacheDir, FETCH_CACHE.ENTRIES_DIR))).toHaveLength(1);
+		expect(await new ReplayFetcher(cacheDir).fetch("https://example.com/missing")).toBeNull();
+	});
+
+	it("should return null for URLs that were never recorded", async () => {
+		const logDebug = vi.fn();
+		const replay = new ReplayFetcher(cacheDir, logDebug);
+
+		expect(await replay.fetch("https://example.com/unknown")).toBeNull();
+		expect(logDebug).toHaveBeenCalledWith("Not in replay cache", {
+			url: "https://example.com/unknown",
+		});
+	});
+
+	it("should keep the previous recording when the page was not modified", async () => {
+		const inner = createFetcher({ "https://example.com/guide": PAGE });
+		const recorder = new RecordingFetcher(inner, cacheDir);
+		await recorder.fetch("https://example.com/guide");
+
+		inner.fetch.mockResolvedValueOnce({
+			html: "",
+			finalUrl: "https://example.com/guide",
+			contentType: "text/html",
+			notModified: true,
+			status: 304,
+		});
+		const result = await recorder.fetch("https://example.com/guide", { etag: '"v1"' });
+
+		expect(result?.notModified).toBe(true);
+		expect(await new ReplayFetcher(cacheDir).fetch("https://example.com/guide")).toEqual(PAGE);
+	});
+
+	it("should not record thrown errors", async () => {
+		const inner = createFetcher({});
+		inner.fetch.mockRejectedValueOnce(new HttpStatusError("https://example.com/", 503));
+		const recorder = new RecordingFetcher(inner, cacheDir);
+
+		await expect(recorder.fetch("https://example.com/")).rejects.toThrow(HttpStatusError);
+		expect(readdirSync(join(cacheDir, FETCH_CACHE.ENTRIES_DIR))).toHaveLength(0);
+	});
+
+	it("should throw FetchError when a recorded body is missing", async () => {
+		await new RecordingFetcher(createFetcher({ "https://example.com/": PAGE }), cacheDir).fetch(
+			"https://example.com/",
+		);
+		rmSync(join(cacheDir, FETCH_CACHE.OBJECTS_DIR), { recursive: true });
+
+		await expect(new ReplayFetcher(cacheDir).fetch("https://example.com/")).rejects.toThrow(
+			FetchError,
+		);
+	});
+
+	it("should forward login to the wrapped fetcher", async () => {
+		const inner = { ...createFetcher({}), login: vi.fn().mockResolvedValue(undefined) };
+		await new RecordingFetcher(inner, cacheDir).login();
+		expect(inner.login).toHaveBeenCalled();
+	});
+
+	it("should close the wrapped fetcher", async () => {
+		const inner = createFetcher({});
+		await new RecordingFetcher(inner, cacheDir).close();
+		expect(inner.close).toHaveBeenCalled();
+	});
+});
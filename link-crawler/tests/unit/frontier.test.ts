@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { Frontier, type QueuedUrl } from "../../src/crawler/frontier.js";
+
+/** キューを空になるまで取り出す */
+function drain(frontier: Frontier): QueuedUrl[] {
+	const entries: QueuedUrl[] = [];
+	let entry = frontier.shift();
+	while (entry) {
+		entries.push(entry);
+		entry = frontier.shift();
+	}
+	return entries;
+}
+
+describe("Frontier", () => {
+	describe("bfs", () => {
+		it("should return URLs in insertion order", () => {
+			const frontier = new Frontier("bfs");
+			frontier.pushAll(["a", "b"], 1);
+			frontier.push("c", 2);
+
+			expect(drain(frontier)).toEqual([
+				{ url: "a", depth: 1 },
+				{ url: "b", depth: 1 },
+				{ url: "c", depth: 2 },
+			]);
+		});
+
+		it("should not queue the same URL twice", () => {
+			const frontier = new Frontier("bfs");
+			expect(frontier.push("a", 1)).toBe(true);
+			expect(frontier.push("a", 2)).toBe(false);
+
+			expect(frontier.size).toBe(1);
+			expect(drain(frontier)).toEqual([{ url: "a", depth: 1 }]);
+		});
+
+		it("should keep the shallower depth without changing the position", () => {
+			const frontier = new Frontier("bfs");
+			frontier.push("a", 3);
+			frontier.push("b", 3);
+			frontier.push("a", 1);
+
+			expect(drain(frontier)).toEqual([
+				{ url: "a", depth: 1 },
+				{ url: "b", depth: 3 },
+			]);
+		});
+
+		it("should allow re-queueing a URL after it was taken", () => {
+			const frontier = new Frontier("bfs");
+			frontier.push("a", 1);
+			frontier.shift();
+
+			expect(frontier.has("a")).toBe(false);
+			expect(frontier.push("a", 2)).toBe(true);
+			expect(frontier.shift()).toEqual({ url: "a", depth: 2 });
+		});
+	});
+
+	describe("dfs", () => {
+		it("should return links of the latest page first, in link order", () => {
+			const frontier = new Frontier("dfs");
+			frontier.pushAll(["a", "b"], 1);
+			expect(frontier.shift()).toEqual({ url: "a", depth: 1 });
+
+			frontier.pushAll(["a1", "a2"], 2);
+			expect(drain(frontier).map((e) => e.url)).toEqual(["a1", "a2", "b"]);
+		});
+
+		it("should move a rediscovered URL to the top and keep the shallower depth", () => {
+			const frontier = new Frontier("dfs");
+			frontier.pushAll(["a", "b"], 1);
+			frontier.shift();
+			frontier.pushAll(["b", "c"], 2);
+
+			expect(frontier.size).toBe(2);
+			expect(drain(frontier)).toEqual([
+				{ url: "b", depth: 1 },
+				{ url: "c", depth: 2 },
+			]);
+		});
+	});
+
+	describe("checkpoint", () => {
+		it.each(["bfs", "dfs"] as const)("should restore entries in take order (%s)", (strategy) => {
+			const frontier = new Frontier(strategy);
+			frontier.pushAll(["a", "b", "c"], 1);
+			frontier.shift();
+
+			const snapshot = frontier.toArray();
+			const restored = new Frontier(strategy);
+			restored.restore(snapshot);
+
+			expect(snapshot).toEqual(drain(frontier));
+			expect(drain(restored)).toEqual(snapshot);
+		});
+	});
+
+	it.each([
+		"bfs",
+		"dfs",
+	] as const)("should peek the next URL without taking it (%s)", (strategy) => {
+		const frontier = new Frontier(strategy);
+		frontier.pushAll(["a", "b"], 1);
+		frontier.push("a", 1);
+
+		const next = frontier.peek();
+		expect(frontier.size).toBe(2);
+		expect(frontier.shift()).toEqual(next);
+	});
+
+	it("should return undefined when empty", () => {
+		expect(new Frontier("bfs").shift()).toBeUndefined();
+		expect(new Frontier("dfs").shift()).toBeUndefined();
+		expect(new Frontier("dfs").peek()).toBeUndefined();
+	});
+});
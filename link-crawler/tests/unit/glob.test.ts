@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { compileGlob, matchGlob } from "../../src/utils/glob.js";
+
+const globMatches = (glob: string, path: string) => matchGlob(compileGlob(glob), path);
+
+describe("compileGlob", () => {
+	it("should split the glob into path segments", () => {
+		expect(compileGlob("/docs/*/api")).toEqual(["", "docs", "*", "api"]);
+	});
+
+	it("should prepend ** to globs without a leading slash", () => {
+		expect(compileGlob("*.pdf")).toEqual(["**", "*.pdf"]);
+	});
+
+	it("should collapse consecutive ** segments and * runs", () => {
+		expect(compileGlob("/a/**/**/b")).toEqual(["", "a", "**", "b"]);
+		expect(compileGlob("**/**/x")).toEqual(["**", "x"]);
+		expect(compileGlob("/a***b")).toEqual(["", "a*b"]);
+	});
+
+	it("should expand a trailing ** to one or more segments", () => {
+		expect(compileGlob("/docs/**")).toEqual(["", "docs", "**", "*"]);
+	});
+});
+
+describe("matchGlob", () => {
+	it("should match ** across directories", () => {
+		expect(globMatches("/docs/**/api/*", "/docs/api/users")).toBe(true);
+		expect(globMatches("/docs/**/api/*", "/docs/v2/ref/api/users")).toBe(true);
+		expect(globMatches("/docs/**/api/*", "/docs/v2/api/users/1")).toBe(false);
+	});
+
+	it("should match a trailing ** below the directory only", () => {
+		expect(globMatches("/docs/**", "/docs/")).toBe(true);
+		expect(globMatches("/docs/**", "/docs/a/b")).toBe(true);
+		expect(globMatches("/docs/**", "/docs")).toBe(false);
+		expect(globMatches("/docs/**", "/docsx/a")).toBe(false);
+	});
+
+	it("should match * and ? within a single segment", () => {
+		expect(globMatches("/docs/*.html", "/docs/a.html")).toBe(true);
+		expect(globMatches("/docs/*.html", "/docs/a/b.html")).toBe(false);
+		expect(globMatches("/docs/*", "/docs/")).toBe(true);
+		expect(globMatches("/docs/?", "/docs/a")).toBe(true);
+		expect(globMatches("/docs/?", "/docs/ab")).toBe(false);
+		expect(globMatches("/a*b*c", "/aXbYbZc")).toBe(true);
+		expect(globMatches("/a*b*c", "/aXbYcZ")).toBe(false);
+	});
+
+	it("should treat ** inside a segment like *", () => {
+		expect(globMatches("/docs/**.md", "/docs/a.md")).toBe(true);
+		expect(globMatches("/docs/**.md", "/docs/a/b.md")).toBe(false);
+	});
+
+	it("should match globs without a leading slash at any depth", () => {
+		expect(globMatches("*.pdf", "/manual.pdf")).toBe(true);
+		expect(globMatches("*.pdf", "/files/2024/manual.pdf")).toBe(true);
+		expect(globMatches("draft/**", "/docs/draft/page")).toBe(true);
+		expect(globMatches("draft/**", "/docs/drafts/page")).toBe(false);
+	});
+
+	it("should match other characters literally", () => {
+		expect(globMatches("/v1.0/(beta)/*", "/v1.0/(beta)/page")).toBe(true);
+		expect(globMatches("/v1.0/*", "/v1x0/page")).toBe(false);
+	});
+
+	it("should not backtrack exponentially on adversarial paths", () => {
+		const start = performance.now();
+		expect(globMatches("/blog/*-*-*-*-*-*-*-*-*-*-*-*.html", `/blog/${"a-".repeat(60)}x`)).toBe(
+			false,
+		);
+		expect(globMatches(`/${"*a".repeat(40)}b`, `/${"a".repeat(5000)}`)).toBe(false);
+		expect(globMatches("/**/x/**/y/**/z/**/w", `/${"a/".repeat(5000)}b`)).toBe(false);
+		expect(globMatches("**/a*/**/a*/**/a*b", `/${"a/".repeat(2000)}a`)).toBe(false);
+		expect(performance.now() - start).toBeLessThan(1000);
+	});
+});
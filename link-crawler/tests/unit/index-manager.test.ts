@@ -4,7 +4,7 @@ import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { CrawlLogger } from "../../src/crawler/logger.js";
 import { IndexManager } from "../../src/output/index-manager.js";
-import type { PageMetadata } from "../../src/types.js";
+import type { CrawledPage, PageMetadata } from "../../src/types.js";
 
 describe("IndexManager", () => {
 	// テストごとに一意なディレクトリを生成
@@ -31,7 +31,7 @@ describe("IndexManager", () => {
 		it("should initialize with empty state when no existing index", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			const result = manager.getResult();
@@ -39,11 +39,31 @@ describe("IndexManager", () => {
 			expect(result.specs.length).toBe(0);
 		});
 
+		it("should record the base URL as the only seed by default", () => {
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+
+			expect(manager.getResult().seeds).toEqual(["https://example.com"]);
+		});
+
+		it("should record all seeds", () => {
+			const seeds = ["https://example.com", "https://docs.example.org/start"];
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				seeds,
+			});
+
+			expect(manager.getResult().seeds).toEqual(seeds);
+		});
+
 		it("should load existing index.json", async () => {
 			const indexData = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 1,
 				pages: [
 					{
@@ -59,6 +79,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "abc123",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -70,7 +91,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			expect(manager.getExistingHashes().size).toBe(1);
@@ -82,7 +103,7 @@ describe("IndexManager", () => {
 		it("should handle missing index.json gracefully", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			expect(manager.getExistingHashes().size).toBe(0);
@@ -99,7 +120,7 @@ describe("IndexManager", () => {
 				"https://example.com",
 				{
 					maxDepth: 2,
-					sameDomain: true,
+					scope: "host",
 				},
 				mockLogger,
 			);
@@ -122,7 +143,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			expect(manager.getExistingHashes().size).toBe(0);
@@ -147,7 +168,7 @@ describe("IndexManager", () => {
 				"https://example.com",
 				{
 					maxDepth: 2,
-					sameDomain: true,
+					scope: "host",
 				},
 				mockLogger,
 			);
@@ -176,7 +197,7 @@ describe("IndexManager", () => {
 				"https://example.com",
 				{
 					maxDepth: 2,
-					sameDomain: true,
+					scope: "host",
 				},
 				mockLogger,
 			);
@@ -198,7 +219,7 @@ describe("IndexManager", () => {
 				"https://example.com",
 				{
 					maxDepth: 2,
-					sameDomain: true,
+					scope: "host",
 				},
 				mockLogger,
 			);
@@ -220,7 +241,7 @@ describe("IndexManager", () => {
 				"https://example.com",
 				{
 					maxDepth: 2,
-					sameDomain: true,
+					scope: "host",
 				},
 				mockLogger,
 			);
@@ -253,6 +274,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -270,6 +292,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash2",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -281,7 +304,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			const hashes = manager.getExistingHashes();
@@ -311,6 +334,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -328,6 +352,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						// no hash
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -339,7 +364,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			const hashes = manager.getExistingHashes();
@@ -352,7 +377,7 @@ describe("IndexManager", () => {
 		it("should return empty map when no existing index", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			const hashes = manager.getExistingHashes();
@@ -365,7 +390,7 @@ describe("IndexManager", () => {
 		it("should return 1 for new manager", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			expect(manager.getNextPageNumber()).toBe(1);
@@ -374,7 +399,7 @@ describe("IndexManager", () => {
 		it("should increment after registering pages", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: "Test",
@@ -383,6 +408,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			expect(manager.getNextPageNumber()).toBe(1);
@@ -413,7 +439,7 @@ describe("IndexManager", () => {
 		it("should register page with correct data", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: "Test Page",
@@ -422,6 +448,7 @@ describe("IndexManager", () => {
 				author: "Test Author",
 				ogTitle: "OG Title",
 				ogType: "article",
+				robots: null,
 			};
 
 			const page = manager.registerPage(
@@ -447,7 +474,7 @@ describe("IndexManager", () => {
 		it("should increment totalPages", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: "Test",
@@ -456,6 +483,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			expect(manager.getResult().pages.length).toBe(0);
@@ -484,7 +512,7 @@ describe("IndexManager", () => {
 		it("should use metadata.title over title parameter when available", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: "Metadata Title",
@@ -493,6 +521,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			const page = manager.registerPage(
@@ -511,7 +540,7 @@ describe("IndexManager", () => {
 		it("should fallback to title parameter when metadata.title is null", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: null,
@@ -520,6 +549,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			const page = manager.registerPage(
@@ -540,7 +570,7 @@ describe("IndexManager", () => {
 		it("should add spec to result", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			expect(manager.getResult().specs.length).toBe(0);
@@ -551,7 +581,7 @@ describe("IndexManager", () => {
 		it("should add multiple specs", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			manager.addSpec("https://example.com/openapi.yaml", "openapi", "specs/openapi.yaml");
@@ -565,7 +595,7 @@ describe("IndexManager", () => {
 		it("should save index.json file", async () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 			const metadata: PageMetadata = {
 				title: "Test",
@@ -574,6 +604,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			manager.registerPage(
@@ -597,7 +628,7 @@ describe("IndexManager", () => {
 
 			expect(data.baseUrl).toBe("https://example.com");
 			expect(data.config.maxDepth).toBe(2);
-			expect(data.config.sameDomain).toBe(true);
+			expect(data.config.scope).toBe("host");
 			expect(data.totalPages).toBe(1);
 			expect(data.pages).toHaveLength(1);
 			expect(data.specs).toHaveLength(1);
@@ -607,7 +638,7 @@ describe("IndexManager", () => {
 		it("should return correct file path", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 			});
 
 			const savedPath = manager.saveIndex();
@@ -620,7 +651,7 @@ describe("IndexManager", () => {
 			const indexData = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 2,
 				pages: [
 					{
@@ -636,6 +667,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -653,6 +685,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash2",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -664,7 +697,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 				diff: true,
 			});
 			const metadata: PageMetadata = {
@@ -674,6 +707,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			// page1のみ更新（page2は変更なし）
@@ -710,7 +744,7 @@ describe("IndexManager", () => {
 		it("should return current result state", () => {
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 3,
-				sameDomain: false,
+				scope: "any",
 			});
 			const metadata: PageMetadata = {
 				title: "Test",
@@ -719,6 +753,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			manager.registerPage(
@@ -735,7 +770,7 @@ describe("IndexManager", () => {
 
 			expect(result.baseUrl).toBe("https://example.com");
 			expect(result.config.maxDepth).toBe(3);
-			expect(result.config.sameDomain).toBe(false);
+			expect(result.config.scope).toBe("any");
 			expect(result.totalPages).toBe(1);
 			expect(result.pages).toHaveLength(1);
 		});
@@ -747,7 +782,7 @@ describe("IndexManager", () => {
 			const indexData = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 2,
 				pages: [
 					{
@@ -763,6 +798,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -780,6 +816,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash2",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -791,7 +828,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 				diff: true,
 			});
 			const metadata: PageMetadata = {
@@ -801,6 +838,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			// page1のみ訪問（page2は削除されたと仮定）
@@ -832,7 +870,7 @@ describe("IndexManager", () => {
 			const indexData = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 3,
 				pages: [
 					{
@@ -848,6 +886,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -865,6 +904,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash2",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -882,6 +922,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash3",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -893,7 +934,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 				diff: true,
 			});
 			const metadata: PageMetadata = {
@@ -903,6 +944,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			// page1, page2, page3を訪問（page2のみ変更なし）
@@ -952,7 +994,7 @@ describe("IndexManager", () => {
 			const indexData = {
 				crawledAt: "2025-01-01T00:00:00.000Z",
 				baseUrl: "https://example.com",
-				config: { maxDepth: 2, sameDomain: true },
+				config: { maxDepth: 2, scope: "host" },
 				totalPages: 3,
 				pages: [
 					{
@@ -968,6 +1010,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash1",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -985,6 +1028,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash2",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -1002,6 +1046,7 @@ describe("IndexManager", () => {
 							author: null,
 							ogTitle: null,
 							ogType: null,
+							robots: null,
 						},
 						hash: "hash3",
 						crawledAt: "2025-01-01T00:00:00.000Z",
@@ -1013,7 +1058,7 @@ describe("IndexManager", () => {
 
 			const manager = new IndexManager(testDir, "https://example.com", {
 				maxDepth: 2,
-				sameDomain: true,
+				scope: "host",
 				diff: true,
 			});
 			const metadata: PageMetadata = {
@@ -1023,6 +1068,7 @@ describe("IndexManager", () => {
 				author: null,
 				ogTitle: null,
 				ogType: null,
+				robots: null,
 			};
 
 			// page1とpage2のみ訪問（page3は削除された）
@@ -1050,4 +1096,407 @@ describe("IndexManager", () => {
 			expect(urls).toEqual(["https://example.com/page1", "https://example.com/page2"]);
 		});
 	});
+
+	describe("aliases", () => {
+		const metadata: PageMetadata = {
+			title: null,
+			description: null,
+			keywords: null,
+			author: null,
+			ogTitle: null,
+			ogType: null,
+			robots: null,
+		};
+
+		it("should find the first page registered with a hash and record aliases once", () => {
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+			const page = manager.registerPage(
+				"https://example.com/latest/",
+				"pages/page-001.md",
+				0,
+				[],
+				metadata,
+				null,
+				"hash1",
+			);
+
+			expect(manager.findPageByHash("hash1")).toBe(page);
+			expect(manager.findPageByHash("hash2")).toBeUndefined();
+
+			manager.addAlias(page, "https://example.com/v3/");
+			manager.addAlias(page, "https://example.com/v3/");
+			manager.addAlias(page, "https://example.com/latest/");
+			expect(page.aliases).toEqual(["https://example.com/v3/"]);
+		});
+
+		it("should use unchanged existing pages in diff mode and drop pages that became aliases", async () => {
+			const existingPage = (url: string, file: string, hash: string, aliases?: string[]) => ({
+				url,
+				title: null,
+				file,
+				depth: 0,
+				links: [],
+				metadata,
+				hash,
+				crawledAt: "2025-01-01T00:00:00.000Z",
+				aliases,
+			});
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: 2,
+					pages: [
+						existingPage("https://example.com/latest/", "pages/page-001.md", "hash1", [
+							"https://example.com/old/",
+						]),
+						existingPage("https://example.com/v3/", "pages/page-002.md", "hash2"),
+					],
+					specs: [],
+				}),
+			);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+
+			// latest は変更なし、v3 は latest と同じ内容になった
+			manager.markUnchanged("https://example.com/latest/");
+			const original = manager.findPageByHash("hash1");
+			expect(original?.url).toBe("https://example.com/latest/");
+			expect(original?.aliases).toBeUndefined();
+			manager.addAlias(original as CrawledPage, "https://example.com/v3/");
+
+			manager.setVisitedUrls(new Set(["https://example.com/latest/", "https://example.com/v3/"]));
+			manager.saveIndex();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.pages).toHaveLength(1);
+			expect(saved.pages[0].aliases).toEqual(["https://example.com/v3/"]);
+		});
+
+		it("should find similar pages by SimHash within the distance", () => {
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+			const page = manager.registerPage(
+				"https://example.com/v1/",
+				"pages/page-001.md",
+				0,
+				[],
+				metadata,
+				null,
+				"hash1",
+				{ simhash: "00000000000000ff" },
+			);
+
+			expect(manager.findSimilarPage("00000000000000fc", 3)).toEqual({ page, distance: 2 });
+			expect(manager.findSimilarPage("0000000000000000", 3)).toBeUndefined();
+		});
+
+		it("should index unchanged pages with the SimHash of the current content", () => {
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: 1,
+					pages: [
+						{
+							url: "https://example.com/v1/",
+							title: null,
+							file: "pages/page-001.md",
+							depth: 0,
+							links: [],
+							metadata,
+							hash: "hash1",
+							crawledAt: "2025-01-01T00:00:00.000Z",
+						},
+					],
+					specs: [],
+				}),
+			);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+
+			manager.markUnchanged("https://example.com/v1/", "00000000000000ff");
+
+			const similar = manager.findSimilarPage("00000000000000ff", 0);
+			expect(similar?.page.url).toBe("https://example.com/v1/");
+			expect(similar?.page.simhash).toBe("00000000000000ff");
+		});
+	});
+
+	describe("cache validators", () => {
+		const writeIndexWithEtag = () => {
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: 1,
+					pages: [
+						{
+							url: "https://example.com/a",
+							title: null,
+							file: "pages/page-001.md",
+							depth: 0,
+							links: ["https://example.com/b"],
+							metadata: {},
+							hash: "hash1",
+							crawledAt: "2025-01-01T00:00:00.000Z",
+							etag: '"v1"',
+						},
+					],
+					specs: [],
+				}),
+			);
+		};
+
+		it("should expose pages from the previous index.json", () => {
+			writeIndexWithEtag();
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+
+			expect(manager.getExistingPage("https://example.com/a")?.etag).toBe('"v1"');
+			expect(manager.getExistingPage("https://example.com/missing")).toBeUndefined();
+		});
+
+		it("should replace validators of unchanged pages when given", async () => {
+			writeIndexWithEtag();
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+
+			manager.markUnchanged("https://example.com/a", undefined, {
+				etag: '"v2"',
+				lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+			});
+			manager.setVisitedUrls(new Set(["https://example.com/a"]));
+			manager.saveIndex();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.pages[0].etag).toBe('"v2"');
+			expect(saved.pages[0].lastModified).toBe("Wed, 01 Jan 2025 00:00:00 GMT");
+		});
+	});
+
+	describe("skipped pages", () => {
+		it("should record skipped pages and omit the field when there are none", async () => {
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+			manager.saveIndex();
+			expect(JSON.parse(await readFile(join(testDir, "index.json"), "utf-8")).skipped).toBe(
+				undefined,
+			);
+
+			manager.addSkipped("https://example.com/draft", "noindex (meta robots)");
+			manager.saveIndex();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.skipped).toEqual([
+				{ url: "https://example.com/draft", reason: "noindex (meta robots)" },
+			]);
+		});
+
+		it("should drop existing pages that are now skipped in diff mode", async () => {
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: 1,
+					pages: [
+						{
+							url: "https://example.com/draft",
+							title: null,
+							file: "pages/page-001.md",
+							depth: 0,
+							links: [],
+							metadata: {},
+							hash: "hash1",
+							crawledAt: "2025-01-01T00:00:00.000Z",
+						},
+					],
+					specs: [],
+				}),
+			);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+
+			manager.addSkipped("https://example.com/draft", "noindex (X-Robots-Tag)");
+			manager.setVisitedUrls(new Set(["https://example.com/draft"]));
+			manager.saveIndex();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.pages).toEqual([]);
+			expect(saved.skipped).toHaveLength(1);
+		});
+	});
+
+	describe("failed pages", () => {
+		it("should record failed pages and omit the field when there are none", async () => {
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+			manager.saveIndex();
+			expect(JSON.parse(await readFile(join(testDir, "index.json"), "utf-8")).failed).toBe(
+				undefined,
+			);
+
+			manager.addFailed("https://example.com/flaky", "HTTP 503", 3);
+			manager.saveIndex();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.failed).toEqual([
+				{ url: "https://example.com/flaky", reason: "HTTP 503", attempts: 3 },
+			]);
+		});
+
+		it("should restore failed pages for visited URLs", () => {
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: 0,
+					pages: [],
+					specs: [],
+					failed: [
+						{ url: "https://example.com/a", reason: "HTTP 503", attempts: 3 },
+						{ url: "https://example.com/b", reason: "Request timeout", attempts: 3 },
+					],
+				}),
+			);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+
+			manager.restorePages(new Set(["https://example.com/a"]));
+
+			expect(manager.getResult().failed).toEqual([
+				{ url: "https://example.com/a", reason: "HTTP 503", attempts: 3 },
+			]);
+		});
+	});
+
+	describe("resume", () => {
+		const metadata: PageMetadata = {
+			title: null,
+			description: null,
+			keywords: null,
+			author: null,
+			ogTitle: null,
+			ogType: null,
+			robots: null,
+		};
+
+		const writeIndex = (urls: string[]) => {
+			const pages = urls.map((url, i) => ({
+				url,
+				title: null,
+				file: `pages/page-00${i + 1}.md`,
+				depth: 0,
+				links: [],
+				metadata,
+				hash: `hash${i + 1}`,
+				crawledAt: "2025-01-01T00:00:00.000Z",
+			}));
+			writeFileSync(
+				join(testDir, "index.json"),
+				JSON.stringify({
+					crawledAt: "2025-01-01T00:00:00.000Z",
+					baseUrl: "https://example.com",
+					config: { maxDepth: 2, scope: "host" },
+					totalPages: pages.length,
+					pages,
+					specs: [
+						{
+							url: "https://example.com/openapi.yaml",
+							type: "openapi",
+							file: "specs/openapi.yaml",
+						},
+					],
+				}),
+			);
+		};
+
+		it("should restore visited pages and continue page numbering", () => {
+			writeIndex(["https://example.com", "https://example.com/a", "https://example.com/b"]);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+			});
+
+			const restored = manager.restorePages(
+				new Set([
+					"https://example.com",
+					"https://example.com/a",
+					"https://example.com/openapi.yaml",
+				]),
+			);
+
+			expect(restored).toBe(2);
+			expect(manager.getNextPageNumber()).toBe(3);
+			expect(manager.getResult().pages.map((p) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+			]);
+			expect(manager.getResult().specs).toHaveLength(1);
+		});
+
+		it("should save progress in diff mode without merging existing pages into the result", async () => {
+			writeIndex(["https://example.com", "https://example.com/a"]);
+			const manager = new IndexManager(testDir, "https://example.com", {
+				maxDepth: 2,
+				scope: "host",
+				diff: true,
+			});
+			manager.registerPage(
+				"https://example.com",
+				"pages/page-001.md",
+				0,
+				[],
+				metadata,
+				null,
+				"new",
+			);
+
+			manager.saveProgress();
+
+			const saved = JSON.parse(await readFile(join(testDir, "index.json"), "utf-8"));
+			expect(saved.pages.map((p: { url: string }) => p.url)).toEqual([
+				"https://example.com",
+				"https://example.com/a",
+			]);
+			expect(saved.pages[0].hash).toBe("new");
+			expect(manager.getResult().pages).toHaveLength(1);
+		});
+	});
 });
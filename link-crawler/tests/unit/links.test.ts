@@ -1,7 +1,23 @@
 import { JSDOM } from "jsdom";
 import { describe, expect, it } from "vitest";
-import { extractLinks, isSameDomain, normalizeUrl, shouldCrawl } from "../../src/parser/links.js";
-import type { CrawlConfig } from "../../src/types.js";
+import {
+	extractLinks,
+	findExcludingRule,
+	isAllowedHost,
+	isSameDomain,
+	normalizeUrl,
+	shouldCrawl,
+} from "../../src/parser/links.js";
+import type { CrawlConfig, UrlMatcher } from "../../src/types.js";
+import { compileGlob } from "../../src/utils/glob.js";
+
+/** 正規表現のフィルタルール */
+const regexRule = (regex: RegExp, rule = `--exclude ${regex.source}`): UrlMatcher => ({
+	type: "regex",
+	pattern: regex.source,
+	regex,
+	rule,
+});
 
 describe("normalizeUrl", () => {
 	it("should normalize absolute URL", () => {
@@ -45,6 +61,18 @@ describe("normalizeUrl", () => {
 		const result = normalizeUrl("//cdn.example.com/file.js", "https://example.com");
 		expect(result).toBe("https://cdn.example.com/file.js");
 	});
+
+	it("should apply the URL policy when given", () => {
+		const result = normalizeUrl("/docs/index.html?utm_source=x#top", "https://example.com", {
+			dropParams: ["utm_*"],
+			keepParams: null,
+			sortQuery: false,
+			trailingSlash: "strip",
+			collapseIndex: true,
+			honorCanonical: true,
+		});
+		expect(result).toBe("https://example.com/docs");
+	});
 });
 
 describe("isSameDomain", () => {
@@ -76,6 +104,84 @@ describe("isSameDomain", () => {
 		// Same hostname, different port - still same domain (hostname comparison only)
 		expect(isSameDomain("https://example.com:8080", "https://example.com")).toBe(true);
 	});
+
+	describe("prefix scope", () => {
+		const base = "https://example.com/docs/v2/";
+
+		it("should accept URLs under the base path", () => {
+			expect(isSameDomain("https://example.com/docs/v2/", base, "prefix")).toBe(true);
+			expect(isSameDomain("https://example.com/docs/v2/guide/intro", base, "prefix")).toBe(true);
+			expect(isSameDomain("https://example.com/docs/v2", base, "prefix")).toBe(true);
+		});
+
+		it("should reject URLs outside the base path", () => {
+			expect(isSameDomain("https://example.com/blog", base, "prefix")).toBe(false);
+			expect(isSameDomain("https://example.com/docs/v1/", base, "prefix")).toBe(false);
+			expect(isSameDomain("https://example.com/docs/v2beta/", base, "prefix")).toBe(false);
+			expect(isSameDomain("https://other.com/docs/v2/", base, "prefix")).toBe(false);
+		});
+
+		it("should treat a path without a trailing slash as a directory", () => {
+			expect(
+				isSameDomain("https://example.com/docs/v2/page", "https://example.com/docs/v2", "prefix"),
+			).toBe(true);
+		});
+
+		it("should use the directory of a file URL", () => {
+			expect(
+				isSameDomain(
+					"https://example.com/docs/other.html",
+					"https://example.com/docs/index.html",
+					"prefix",
+				),
+			).toBe(true);
+		});
+	});
+
+	describe("domain scope", () => {
+		it("should accept subdomains of the registrable domain", () => {
+			expect(isSameDomain("https://api.example.com/", "https://docs.example.com", "domain")).toBe(
+				true,
+			);
+			expect(isSameDomain("https://example.com/", "https://docs.example.com", "domain")).toBe(true);
+		});
+
+		it("should handle two-level top-level domains", () => {
+			expect(
+				isSameDomain("https://blog.example.co.jp/", "https://docs.example.co.jp", "domain"),
+			).toBe(true);
+			expect(isSameDomain("https://other.co.jp/", "https://docs.example.co.jp", "domain")).toBe(
+				false,
+			);
+		});
+
+		it("should treat private suffixes of shared hosting as separate sites", () => {
+			expect(isSameDomain("https://other.github.io/", "https://proj.github.io", "domain")).toBe(
+				false,
+			);
+			expect(
+				isSameDomain("https://someone.vercel.app/", "https://docs-proj.vercel.app", "domain"),
+			).toBe(false);
+			expect(isSameDomain("https://api.proj.github.io/", "https://proj.github.io", "domain")).toBe(
+				true,
+			);
+		});
+
+		it("should compare IP addresses and single-label hosts as is", () => {
+			expect(isSameDomain("http://127.0.0.1:8080/", "http://127.0.0.1:3000", "domain")).toBe(true);
+			expect(isSameDomain("http://127.0.0.2/", "http://127.0.0.1", "domain")).toBe(false);
+			expect(isSameDomain("http://localhost/docs", "http://localhost", "domain")).toBe(true);
+		});
+
+		it("should reject other domains", () => {
+			expect(isSameDomain("https://example.org/", "https://example.com", "domain")).toBe(false);
+		});
+	});
+
+	it("should accept any valid URL with the any scope", () => {
+		expect(isSameDomain("https://other.com/page", "https://example.com", "any")).toBe(true);
+		expect(isSameDomain("not a url", "https://example.com", "any")).toBe(false);
+	});
 });
 
 describe("shouldCrawl", () => {
@@ -84,9 +190,9 @@ describe("shouldCrawl", () => {
 		maxDepth: 2,
 		maxPages: null,
 		outputDir: "./output",
-		sameDomain: true,
-		includePattern: null,
-		excludePattern: null,
+		scope: "host",
+		includeMatchers: [],
+		excludeMatchers: [],
 		delay: 500,
 		timeout: 30000,
 		spaWait: 2000,
@@ -97,6 +203,40 @@ describe("shouldCrawl", () => {
 		chunks: true,
 		keepSession: false,
 		respectRobots: true,
+		fetcher: "playwright",
+		concurrency: 1,
+		strategy: "bfs",
+		resume: false,
+		sitemap: "off",
+		seeds: ["https://example.com"],
+		urlPolicy: {
+			dropParams: ["utm_*", "gclid", "fbclid"],
+			keepParams: null,
+			sortQuery: false,
+			trailingSlash: "keep",
+			collapseIndex: true,
+			honorCanonical: true,
+		},
+		dedupe: "exact",
+		dedupeDistance: 3,
+		allowedHosts: [],
+		respectMetaRobots: true,
+		retries: 0,
+		breakerThreshold: 0,
+		breakerCooldown: 60000,
+		record: null,
+		replay: null,
+		headers: {},
+		cookies: [],
+		loginScript: null,
+		loginUrl: null,
+		storageState: null,
+		userAgent: null,
+		robotsAgent: "link-crawler",
+		httpProxy: null,
+		httpsProxy: null,
+		noProxy: [],
+		waitFor: null,
 		version: "test-version",
 	};
 
@@ -110,40 +250,60 @@ describe("shouldCrawl", () => {
 		expect(shouldCrawl("https://example.com/page", visited, baseConfig)).toBe(false);
 	});
 
-	it("should return false for different domain when sameDomain is true", () => {
+	it("should return false for different domain with the host scope", () => {
 		const visited = new Set<string>();
 		expect(shouldCrawl("https://other.com/page", visited, baseConfig)).toBe(false);
 	});
 
-	it("should return true for different domain when sameDomain is false", () => {
+	it("should return true for different domain with the any scope", () => {
 		const visited = new Set<string>();
-		const config = { ...baseConfig, sameDomain: false };
+		const config: CrawlConfig = { ...baseConfig, scope: "any" };
 		expect(shouldCrawl("https://other.com/page", visited, config)).toBe(true);
 	});
 
-	it("should return true when URL matches includePattern", () => {
+	it("should only accept URLs under a seed path with the prefix scope", () => {
 		const visited = new Set<string>();
-		// includePattern needs to match the full URL
-		const config = { ...baseConfig, includePattern: /\/docs/ };
+		const config: CrawlConfig = {
+			...baseConfig,
+			scope: "prefix",
+			seeds: ["https://example.com/docs/v2/", "https://example.com/api/"],
+		};
+		expect(shouldCrawl("https://example.com/docs/v2/intro", visited, config)).toBe(true);
+		expect(shouldCrawl("https://example.com/api/users", visited, config)).toBe(true);
+		expect(shouldCrawl("https://example.com/blog", visited, config)).toBe(false);
+		expect(shouldCrawl("https://example.com/pricing", visited, config)).toBe(false);
+	});
+
+	it("should accept hosts of any seed URL with the host scope", () => {
+		const visited = new Set<string>();
+		const config = { ...baseConfig, seeds: ["https://example.com", "https://api.example.org/v1"] };
+		expect(shouldCrawl("https://api.example.org/other", visited, config)).toBe(true);
+		expect(shouldCrawl("https://other.com/page", visited, config)).toBe(false);
+	});
+
+	it("should return true when URL matches an include rule", () => {
+		const visited = new Set<string>();
+		// include rules need to match the full URL
+		const config = { ...baseConfig, includeMatchers: [regexRule(/\/docs/)] };
 		expect(shouldCrawl("https://example.com/docs/guide", visited, config)).toBe(true);
 	});
 
-	it("should return false when URL does not match includePattern", () => {
+	it("should return false when URL does not match any include rule", () => {
 		const visited = new Set<string>();
-		// includePattern needs to match the full URL
-		const config = { ...baseConfig, includePattern: /\/docs/ };
+		// include rules need to match the full URL
+		const config = { ...baseConfig, includeMatchers: [regexRule(/\/docs/)] };
 		expect(shouldCrawl("https://example.com/about", visited, config)).toBe(false);
 	});
 
-	it("should return false when URL matches excludePattern", () => {
+	it("should return false when URL matches an exclude rule", () => {
 		const visited = new Set<string>();
-		const config = { ...baseConfig, excludePattern: /\.pdf$/ };
+		const config = { ...baseConfig, excludeMatchers: [regexRule(/\.pdf$/)] };
 		expect(shouldCrawl("https://example.com/file.pdf", visited, config)).toBe(false);
 	});
 
-	it("should return true when URL does not match excludePattern", () => {
+	it("should return true when URL does not match any exclude rule", () => {
 		const visited = new Set<string>();
-		const config = { ...baseConfig, excludePattern: /\.pdf$/ };
+		const config = { ...baseConfig, excludeMatchers: [regexRule(/\.pdf$/)] };
 		expect(shouldCrawl("https://example.com/page.html", visited, config)).toBe(true);
 	});
 
@@ -219,14 +379,106 @@ describe("shouldCrawl", () => {
 		const visited = new Set<string>();
 		const config = {
 			...baseConfig,
-			// includePattern needs to match full URL
-			includePattern: /\/docs/,
-			excludePattern: /draft/,
+			// include rules need to match full URL
+			includeMatchers: [regexRule(/\/docs/)],
+			excludeMatchers: [regexRule(/draft/)],
 		};
 		expect(shouldCrawl("https://example.com/docs/guide", visited, config)).toBe(true);
 		expect(shouldCrawl("https://example.com/docs/draft", visited, config)).toBe(false);
 		expect(shouldCrawl("https://example.com/blog/post", visited, config)).toBe(false);
 	});
+
+	it("should match glob rules against the URL path", () => {
+		const visited = new Set<string>();
+		const config: CrawlConfig = {
+			...baseConfig,
+			includeMatchers: [
+				{
+					type: "glob",
+					pattern: "/docs/**",
+					segments: compileGlob("/docs/**"),
+					rule: "--include-glob /docs/**",
+				},
+			],
+		};
+		expect(shouldCrawl("https://example.com/docs/guide?page=2", visited, config)).toBe(true);
+		expect(shouldCrawl("https://example.com/blog/docs/", visited, config)).toBe(false);
+	});
+
+	it("should pass the excluding rule to the callback", () => {
+		const visited = new Set<string>();
+		const config: CrawlConfig = {
+			...baseConfig,
+			excludeMatchers: [regexRule(/\/old\//), regexRule(/draft/, "rules.txt:2 exclude draft")],
+		};
+		const filtered: [string, string][] = [];
+		const onFiltered = (url: string, rule: string) => filtered.push([url, rule]);
+
+		expect(shouldCrawl("https://example.com/draft", visited, config, onFiltered)).toBe(false);
+		expect(shouldCrawl("https://example.com/page", visited, config, onFiltered)).toBe(true);
+		expect(filtered).toEqual([["https://example.com/draft", "rules.txt:2 exclude draft"]]);
+	});
+
+	it("should crawl allowed hosts outside the scope", () => {
+		const visited = new Set<string>();
+		const config: CrawlConfig = {
+			...baseConfig,
+			allowedHosts: ["cdn.example.net", "*.example.org"],
+		};
+		expect(shouldCrawl("https://cdn.example.net/guide", visited, config)).toBe(true);
+		expect(shouldCrawl("https://api.example.org/ref", visited, config)).toBe(true);
+		expect(shouldCrawl("https://other.com/page", visited, config)).toBe(false);
+	});
+
+	it("should apply exclude rules to allowed hosts", () => {
+		const visited = new Set<string>();
+		const config: CrawlConfig = {
+			...baseConfig,
+			allowedHosts: ["cdn.example.net"],
+			excludeMatchers: [regexRule(/\/private\//)],
+		};
+		expect(shouldCrawl("https://cdn.example.net/private/key", visited, config)).toBe(false);
+	});
+});
+
+describe("isAllowedHost", () => {
+	it("should match exact host names", () => {
+		expect(isAllowedHost("https://docs.example.com/a", ["docs.example.com"])).toBe(true);
+		expect(isAllowedHost("https://example.com/a", ["docs.example.com"])).toBe(false);
+	});
+
+	it("should match subdomains with a wildcard but not the domain itself", () => {
+		expect(isAllowedHost("https://a.example.com", ["*.example.com"])).toBe(true);
+		expect(isAllowedHost("https://a.b.example.com", ["*.example.com"])).toBe(true);
+		expect(isAllowedHost("https://example.com", ["*.example.com"])).toBe(false);
+		expect(isAllowedHost("https://badexample.com", ["*.example.com"])).toBe(false);
+	});
+
+	it("should return false for no patterns or an invalid URL", () => {
+		expect(isAllowedHost("https://example.com", [])).toBe(false);
+		expect(isAllowedHost("not a url", ["example.com"])).toBe(false);
+	});
+});
+
+describe("findExcludingRule", () => {
+	const config = {
+		includeMatchers: [regexRule(/\/docs/, "--include \\/docs")],
+		excludeMatchers: [regexRule(/\/docs\/old/, "--exclude \\/docs\\/old")],
+	} as CrawlConfig;
+
+	it("should return null for URLs that pass the rules", () => {
+		expect(findExcludingRule("https://example.com/docs/new", config)).toBeNull();
+	});
+
+	it("should return the first matching exclude rule", () => {
+		expect(findExcludingRule("https://example.com/docs/old/page", config)).toBe(
+			"--exclude \\/docs\\/old",
+		);
+	});
+
+	it("should report URLs that match no include rule", () => {
+		expect(findExcludingRule("https://example.com/blog", config)).toBe("no include rule matched");
+	});
 });
 
 describe("extractLinks", () => {
@@ -235,9 +487,9 @@ describe("extractLinks", () => {
 		maxDepth: 2,
 		maxPages: null,
 		outputDir: "./output",
-		sameDomain: true,
-		includePattern: null,
-		excludePattern: null,
+		scope: "host",
+		includeMatchers: [],
+		excludeMatchers: [],
 		delay: 500,
 		timeout: 30000,
 		spaWait: 2000,
@@ -248,6 +500,40 @@ describe("extractLinks", () => {
 		chunks: true,
 		keepSession: false,
 		respectRobots: true,
+		fetcher: "playwright",
+		concurrency: 1,
+		strategy: "bfs",
+		resume: false,
+		sitemap: "off",
+		seeds: ["https://example.com"],
+		urlPolicy: {
+			dropParams: ["utm_*", "gclid", "fbclid"],
+			keepParams: null,
+			sortQuery: false,
+			trailingSlash: "keep",
+			collapseIndex: true,
+			honorCanonical: true,
+		},
+		dedupe: "exact",
+		dedupeDistance: 3,
+		allowedHosts: [],
+		respectMetaRobots: true,
+		retries: 0,
+		breakerThreshold: 0,
+		breakerCooldown: 60000,
+		record: null,
+		replay: null,
+		headers: {},
+		cookies: [],
+		loginScript: null,
+		loginUrl: null,
+		storageState: null,
+		userAgent: null,
+		robotsAgent: "link-crawler",
+		httpProxy: null,
+		httpsProxy: null,
+		noProxy: [],
+		waitFor: null,
 		version: "test-version",
 	};
 
@@ -285,7 +571,7 @@ describe("extractLinks", () => {
 
 		expect(links).toContain("https://example.com/about");
 		expect(links).toContain("https://example.com/contact");
-		// External link should be excluded due to sameDomain=true
+		// External link should be excluded due to the host scope
 		expect(links).not.toContain("https://other.com/page");
 	});
 
@@ -556,7 +842,7 @@ describe("extractLinks", () => {
 		expect(links[0]).toBe("https://example.com/page");
 	});
 
-	it("should respect includePattern", () => {
+	it("should respect include rules", () => {
 		const html = `
 			<html>
 				<body>
@@ -567,8 +853,8 @@ describe("extractLinks", () => {
 			</html>
 		`;
 		const visited = new Set<string>();
-		// includePattern needs to match full URL
-		const config = { ...baseConfig, includePattern: /\/docs/ };
+		// include rules need to match full URL
+		const config = { ...baseConfig, includeMatchers: [regexRule(/\/docs/)] };
 		const dom = new JSDOM(html, { url: "https://example.com" });
 		const links = extractLinks(dom, visited, config);
 
@@ -576,7 +862,7 @@ describe("extractLinks", () => {
 		expect(links[0]).toBe("https://example.com/docs/guide");
 	});
 
-	it("should respect excludePattern", () => {
+	it("should respect exclude rules", () => {
 		const html = `
 			<html>
 				<body>
@@ -587,7 +873,7 @@ describe("extractLinks", () => {
 			</html>
 		`;
 		const visited = new Set<string>();
-		const config = { ...baseConfig, excludePattern: /draft/ };
+		const config = { ...baseConfig, excludeMatchers: [regexRule(/draft/)] };
 		const dom = new JSDOM(html, { url: "https://example.com" });
 		const links = extractLinks(dom, visited, config);
 
@@ -597,7 +883,7 @@ describe("extractLinks", () => {
 		expect(links).toHaveLength(2);
 	});
 
-	it("should handle external links when sameDomain is false", () => {
+	it("should handle external links with the any scope", () => {
 		const html = `
 			<html>
 				<body>
@@ -607,7 +893,7 @@ describe("extractLinks", () => {
 			</html>
 		`;
 		const visited = new Set<string>();
-		const config = { ...baseConfig, sameDomain: false };
+		const config: CrawlConfig = { ...baseConfig, scope: "any" };
 		const dom = new JSDOM(html, { url: "https://example.com" });
 		const links = extractLinks(dom, visited, config);
 
@@ -634,4 +920,22 @@ describe("extractLinks", () => {
 		expect(links).toHaveLength(1);
 		expect(links[0]).toBe("https://example.com/page");
 	});
+
+	it("should skip rel=nofollow anchors unless meta robots are ignored", () => {
+		const html = `
+			<html>
+				<body>
+					<a href="/follow">Follow</a>
+					<a href="/sponsored" rel="Sponsored NOFOLLOW">Sponsored</a>
+				</body>
+			</html>
+		`;
+		const dom = new JSDOM(html, { url: "https://example.com" });
+
+		expect(extractLinks(dom, new Set(), baseConfig)).toEqual(["https://example.com/follow"]);
+		expect(extractLinks(dom, new Set(), { ...baseConfig, respectMetaRobots: false })).toEqual([
+			"https://example.com/follow",
+			"https://example.com/sponsored",
+		]);
+	});
 });
@@ -19,6 +19,7 @@ const createPage = (url: string, title: string | null, file: string): CrawledPag
 		author: null,
 		ogTitle: null,
 		ogType: null,
+		robots: null,
 	},
 	hash: "",
 	crawledAt: new Date().toISOString(),
@@ -122,6 +123,24 @@ Content after title.`;
 			expect(result).toBe("");
 		});
 
+		it("should skip pages recorded as aliases of another page", () => {
+			const merger = new Merger();
+			const original = {
+				...createPage("https://example.com/latest/", "Guide", "pages/page-001.md"),
+				aliases: ["https://example.com/v3/"],
+			};
+			const alias = createPage("https://example.com/v3/", "Guide", "pages/page-002.md");
+			const pageContents = new Map([
+				["pages/page-001.md", "# Guide\n\nSame content"],
+				["pages/page-002.md", "# Guide\n\nSame content"],
+			]);
+
+			const result = merger.buildFullContent([original, alias], pageContents);
+
+			expect(result.match(/Same content/g)).toHaveLength(1);
+			expect(result).not.toContain("Source: https://example.com/v3/");
+		});
+
 		it("should use URL as title when title is null", () => {
 			const merger = new Merger();
 			const pages = [createPage("https://example.com/page1", null, "pages/page-001.md")];
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { RateLimiter, type RateLimiterOptions } from "../../src/crawler/rate-limiter.js";
+
+/** 時刻を手動で進めるテスト用の RateLimiter を作成（sleep は時刻を進める） */
+function createLimiter(options: Partial<RateLimiterOptions> = {}) {
+	let now = 0;
+	const sleep = vi.fn(async (ms: number) => {
+		now += ms;
+	});
+	const limiter = new RateLimiter({
+		delay: 500,
+		slowResponseMs: 5000,
+		getCrawlDelay: () => null,
+		sleep,
+		now: () => now,
+		...options,
+	});
+	return {
+		limiter,
+		sleep,
+		advance: (ms: number) => {
+			now += ms;
+		},
+	};
+}
+
+describe("RateLimiter", () => {
+	describe("acquire", () => {
+		it("should not wait for the first request to an origin", async () => {
+			const { limiter, sleep } = createLimiter();
+
+			expect(await limiter.acquire("https://example.com/a")).toBe(0);
+			expect(sleep).not.toHaveBeenCalled();
+		});
+
+		it("should space requests to the same origin by the delay", async () => {
+			const { limiter, advance } = createLimiter();
+
+			await limiter.acquire("https://example.com/a");
+			advance(100);
+			expect(await limiter.acquire("https://example.com/b")).toBe(400);
+			advance(600);
+			expect(await limiter.acquire("https://example.com/c")).toBe(0);
+		});
+
+		it("should track origins independently", async () => {
+			const { limiter } = createLimiter();
+
+			await limiter.acquire("https://example.com/a");
+			expect(await limiter.acquire("https://other.example.com/a")).toBe(0);
+		});
+
+		it("should reserve slots for concurrent requests", async () => {
+			// 待機中に時刻が進まない状態で、同時に呼ばれた acquire() がそれぞれ別の送信時刻を予約する
+			const { limiter } = createLimiter({ sleep: vi.fn().mockResolvedValue(undefined) });
+
+			const waits = await Promise.all([
+				limiter.acquire("https://example.com/a"),
+				limiter.acquire("https://example.com/b"),
+				limiter.acquire("https://example.com/c"),
+			]);
+
+			expect(waits).toEqual([0, 500, 1000]);
+		});
+
+		it("should use Crawl-delay as a lower bound capped at MAX_DELAY_MS", () => {
+			const { limiter } = createLimiter({
+				getCrawlDelay: (origin) => (origin === "https://example.com" ? 2000 : 600000),
+			});
+
+			expect(limiter.getInterval("https://example.com/a")).toBe(2000);
+			expect(limiter.getInterval("https://slow.example.com/a")).toBe(60000);
+		});
+	});
+
+	describe("adaptive backoff", () => {
+		it("should widen the interval after failures and cap it", () => {
+			const { limiter } = createLimiter();
+
+			limiter.recordFailure("https://example.com/a");
+			expect(limiter.getInterval("https://example.com/a")).toBe(1000);
+			limiter.recordFailure("https://example.com/a");
+			expect(limiter.getInterval("https://example.com/a")).toBe(2000);
+
+			for (let i = 0; i < 10; i++) {
+				limiter.recordFailure("https://example.com/a");
+			}
+			expect(limiter.getInterval("https://example.com/a")).toBe(60000);
+			expect(limiter.getInterval("https://other.example.com/a")).toBe(500);
+		});
+
+		it("should treat slow responses as a failure", () => {
+			const { limiter } = createLimiter();
+
+			limiter.recordResponse("https://example.com/a", 6000);
+
+			expect(limiter.getInterval("https://example.com/a")).toBe(1000);
+		});
+
+		it("should ease back after healthy responses", () => {
+			const { limiter } = createLimiter({ delay: 0 });
+			limiter.recordFailure("https://example.com/a");
+			limiter.recordFailure("https://example.com/a");
+			limiter.recordFailure("https://example.com/a");
+			expect(limiter.getInterval("https://example.com/a")).toBe(4000);
+
+			limiter.recordResponse("https://example.com/a", 100);
+			expect(limiter.getInterval("https://example.com/a")).toBe(2000);
+			limiter.recordResponse("https://example.com/a", 100);
+			expect(limiter.getInterval("https://example.com/a")).toBe(1000);
+			limiter.recordResponse("https://example.com/a", 100);
+			expect(limiter.getInterval("https://example.com/a")).toBe(0);
+		});
+
+		it("should apply the backoff to the next request", async () => {
+			const { limiter } = createLimiter();
+
+			await limiter.acquire("https://example.com/a");
+			limiter.recordFailure("https://example.com/a");
+			await limiter.acquire("https://example.com/b");
+
+			expect(await limiter.acquire("https://example.com/c")).toBe(1000);
+		});
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+	getRetryDelay,
+	isRetryableError,
+	isTransientStatus,
+	parseRetryAfter,
+} from "../../src/crawler/retry.js";
+import { DependencyError, FetchError, HttpStatusError, TimeoutError } from "../../src/errors.js";
+
+describe("isTransientStatus", () => {
+	it("should treat 408, 429 and 5xx as transient", () => {
+		expect(isTransientStatus(408)).toBe(true);
+		expect(isTransientStatus(429)).toBe(true);
+		expect(isTransientStatus(500)).toBe(true);
+		expect(isTransientStatus(503)).toBe(true);
+	});
+
+	it("should treat other statuses as permanent", () => {
+		expect(isTransientStatus(400)).toBe(false);
+		expect(isTransientStatus(404)).toBe(false);
+		expect(isTransientStatus(410)).toBe(false);
+	});
+});
+
+describe("isRetryableError", () => {
+	it("should retry timeouts and network errors", () => {
+		expect(isRetryableError(new TimeoutError("timeout", 1000))).toBe(true);
+		expect(isRetryableError(new FetchError("ECONNRESET", "https://example.com"))).toBe(true);
+	});
+
+	it("should retry transient HTTP statuses only", () => {
+		expect(isRetryableError(new HttpStatusError("https://example.com", 503))).toBe(true);
+		expect(isRetryableError(new HttpStatusError("https://example.com", 429))).toBe(true);
+		expect(isRetryableError(new HttpStatusError("https://example.com", 404))).toBe(false);
+	});
+
+	it("should not retry other errors", () => {
+		expect(isRetryableError(new Error("unexpected"))).toBe(false);
+		expect(isRetryableError(new DependencyError("missing", "playwright-cli"))).toBe(false);
+		expect(isRetryableError("string error")).toBe(false);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	const now = Date.parse("2025-01-01T00:00:00Z");
+
+	it("should parse delay in seconds", () => {
+		expect(parseRetryAfter("120", now)).toBe(120000);
+		expect(parseRetryAfter(" 0 ", now)).toBe(0);
+	});
+
+	it("should parse HTTP-date relative to now", () => {
+		expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30000);
+		expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+	});
+
+	it("should return null for missing or invalid values", () => {
+		expect(parseRetryAfter(null, now)).toBeNull();
+		expect(parseRetryAfter(undefined, now)).toBeNull();
+		expect(parseRetryAfter("", now)).toBeNull();
+		expect(parseRetryAfter("soon", now)).toBeNull();
+		expect(parseRetryAfter("-5", now)).toBeNull();
+	});
+});
+
+describe("getRetryDelay", () => {
+	const networkError = new FetchError("ECONNRESET", "https://example.com");
+
+	it("should double the backoff for each attempt with jitter", () => {
+		expect(getRetryDelay(networkError, 1, () => 0)).toBe(500);
+		expect(getRetryDelay(networkError, 1, () => 0.999)).toBe(1000);
+		expect(getRetryDelay(networkError, 2, () => 0)).toBe(1000);
+		expect(getRetryDelay(networkError, 3, () => 0)).toBe(2000);
+	});
+
+	it("should cap the backoff at RETRY_BACKOFF.MAX_DELAY_MS", () => {
+		expect(getRetryDelay(networkError, 20, () => 0.999)).toBeLessThanOrEqual(30000);
+		expect(getRetryDelay(networkError, 20, () => 0)).toBe(15000);
+	});
+
+	it("should honor Retry-After up to MAX_DELAY_MS", () => {
+		expect(getRetryDelay(new HttpStatusError("https://example.com", 429, 5000), 1)).toBe(5000);
+		expect(getRetryDelay(new HttpStatusError("https://example.com", 503, 600000), 1)).toBe(60000);
+	});
+
+	it("should fall back to backoff when Retry-After is absent", () => {
+		expect(getRetryDelay(new HttpStatusError("https://example.com", 503), 1, () => 0)).toBe(500);
+	});
+});
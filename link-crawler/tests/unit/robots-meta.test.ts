@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseRobotsDirectives } from "../../src/parser/robots-meta.js";
+
+describe("parseRobotsDirectives", () => {
+	it("should parse noindex and nofollow case-insensitively", () => {
+		expect(parseRobotsDirectives(["NoIndex, nofollow"])).toEqual({ noindex: true, nofollow: true });
+		expect(parseRobotsDirectives(["noindex"])).toEqual({ noindex: true, nofollow: false });
+		expect(parseRobotsDirectives(["index, nofollow"])).toEqual({ noindex: false, nofollow: true });
+	});
+
+	it("should treat none as noindex and nofollow", () => {
+		expect(parseRobotsDirectives(["none"])).toEqual({ noindex: true, nofollow: true });
+	});
+
+	it("should combine multiple values and ignore missing ones", () => {
+		expect(parseRobotsDirectives([null, "noindex", undefined, "nofollow"])).toEqual({
+			noindex: true,
+			nofollow: true,
+		});
+		expect(parseRobotsDirectives([])).toEqual({ noindex: false, nofollow: false });
+	});
+
+	it("should apply user-agent specific directives only to the matching agent", () => {
+		const value = "googlebot: noindex, nofollow, link-crawler: nofollow";
+		expect(parseRobotsDirectives([value])).toEqual({ noindex: false, nofollow: true });
+		expect(parseRobotsDirectives([value], "Googlebot")).toEqual({ noindex: true, nofollow: true });
+	});
+
+	it("should match user-agent prefixes", () => {
+		expect(parseRobotsDirectives(["googlebot: noindex"], "Googlebot-News")).toEqual({
+			noindex: true,
+			nofollow: false,
+		});
+		expect(parseRobotsDirectives(["googlebot-news: noindex"], "Googlebot")).toEqual({
+			noindex: false,
+			nofollow: false,
+		});
+	});
+
+	it("should not mistake valued directives for user agents", () => {
+		expect(parseRobotsDirectives(["max-snippet: 20, noindex"])).toEqual({
+			noindex: true,
+			nofollow: false,
+		});
+		expect(parseRobotsDirectives(["unavailable_after: 2030-01-01"])).toEqual({
+			noindex: false,
+			nofollow: false,
+		});
+	});
+});
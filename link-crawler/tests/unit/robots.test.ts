@@ -178,6 +178,30 @@ Disallow: /admin/
 			expect(checker.isAllowed("https://example.com/admin/")).toBe(true);
 		});
 
+		it("should match agent tokens by prefix and ignore versions", () => {
+			const robotsTxt = `
+User-agent: Googlebot/2.1
+Disallow: /no-google/
+
+User-agent: Googlebot-News
+Disallow: /no-news/
+
+User-agent: *
+Disallow: /admin/
+			`.trim();
+
+			const news = new RobotsChecker(robotsTxt, "googlebot-news");
+			expect(news.isAllowed("https://example.com/no-news/")).toBe(false);
+			expect(news.isAllowed("https://example.com/no-google/")).toBe(true);
+
+			const image = new RobotsChecker(robotsTxt, "Googlebot-Image");
+			expect(image.isAllowed("https://example.com/no-google/")).toBe(false);
+			expect(image.isAllowed("https://example.com/admin/")).toBe(true);
+
+			const other = new RobotsChecker(robotsTxt, "Google");
+			expect(other.isAllowed("https://example.com/admin/")).toBe(false);
+		});
+
 		it("should handle directive keys case-insensitively", () => {
 			const robotsTxt = `
 user-agent: *
@@ -573,4 +597,105 @@ Disallow: /search?q=test&amp;value=1</pre></body></html>`;
 			expect(checker.isAllowed("https://example.com/search?q=other")).toBe(true);
 		});
 	});
+
+	describe("Groups (RFC 9309)", () => {
+		it("should share rules among consecutive User-agent lines", () => {
+			const robotsTxt = `
+User-agent: link-crawler
+User-agent: Googlebot
+Disallow: /shared/
+
+User-agent: *
+Disallow: /all/
+			`.trim();
+
+			for (const agent of ["link-crawler", "Googlebot"]) {
+				const checker = new RobotsChecker(robotsTxt, agent);
+				expect(checker.isAllowed("https://example.com/shared/page")).toBe(false);
+				expect(checker.isAllowed("https://example.com/all/page")).toBe(true);
+			}
+			expect(new RobotsChecker(robotsTxt, "other").isAllowed("https://example.com/shared/")).toBe(
+				true,
+			);
+		});
+
+		it("should start a new group when User-agent follows a rule", () => {
+			const robotsTxt = `
+User-agent: link-crawler
+Disallow: /first/
+User-agent: *
+Disallow: /second/
+			`.trim();
+
+			const checker = new RobotsChecker(robotsTxt);
+			expect(checker.isAllowed("https://example.com/first/")).toBe(false);
+			expect(checker.isAllowed("https://example.com/second/")).toBe(true);
+		});
+
+		it("should merge groups for the same User-agent", () => {
+			const robotsTxt = `
+User-agent: *
+Disallow: /a/
+
+User-agent: *
+Disallow: /b/
+			`.trim();
+
+			const checker = new RobotsChecker(robotsTxt);
+			expect(checker.isAllowed("https://example.com/a/")).toBe(false);
+			expect(checker.isAllowed("https://example.com/b/")).toBe(false);
+		});
+
+		it("should ignore rules before the first User-agent line", () => {
+			const checker = new RobotsChecker("Disallow: /\nUser-agent: *\nDisallow: /private");
+			expect(checker.isAllowed("https://example.com/public")).toBe(true);
+		});
+	});
+
+	describe("Crawl-delay", () => {
+		it("should return the Crawl-delay of the matching group in milliseconds", () => {
+			const robotsTxt = `
+User-agent: link-crawler
+Crawl-delay: 1.5
+
+User-agent: *
+Crawl-delay: 10
+			`.trim();
+
+			expect(new RobotsChecker(robotsTxt).getCrawlDelay()).toBe(1500);
+			expect(new RobotsChecker(robotsTxt, "other").getCrawlDelay()).toBe(10000);
+		});
+
+		it("should apply Crawl-delay to every User-agent in the group", () => {
+			const robotsTxt = "User-agent: a\nUser-agent: b\nCrawl-delay: 3";
+			expect(new RobotsChecker(robotsTxt, "a").getCrawlDelay()).toBe(3000);
+			expect(new RobotsChecker(robotsTxt, "b").getCrawlDelay()).toBe(3000);
+		});
+
+		it("should return null without a valid Crawl-delay", () => {
+			expect(new RobotsChecker("User-agent: *\nDisallow: /x").getCrawlDelay()).toBeNull();
+			expect(new RobotsChecker("User-agent: *\nCrawl-delay: soon").getCrawlDelay()).toBeNull();
+			expect(new RobotsChecker("User-agent: *\nCrawl-delay: -1").getCrawlDelay()).toBeNull();
+		});
+	});
+
+	describe("Sitemap", () => {
+		it("should collect Sitemap lines regardless of User-agent groups", () => {
+			const robotsTxt = `Sitemap: https://example.com/sitemap.xml
+User-agent: *
+Disallow: /private
+sitemap: https://cdn.example.com/sitemap-docs.xml`;
+			const checker = new RobotsChecker(robotsTxt);
+
+			expect(checker.getSitemaps()).toEqual([
+				"https://example.com/sitemap.xml",
+				"https://cdn.example.com/sitemap-docs.xml",
+			]);
+			expect(checker.isAllowed("https://example.com/private")).toBe(false);
+		});
+
+		it("should return an empty list without Sitemap lines", () => {
+			expect(new RobotsChecker("User-agent: *\nDisallow:").getSitemaps()).toEqual([]);
+		});
+	});
 });
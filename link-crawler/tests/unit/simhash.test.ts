@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { computeSimHash, hammingDistance, SimHashIndex } from "../../src/diff/simhash.js";
+
+const article = Array.from(
+	{ length: 40 },
+	(_, i) => `Paragraph ${i} explains how the crawler handles section ${i} of the guide.`,
+).join("\n\n");
+
+describe("computeSimHash", () => {
+	it("should return a 16-digit hex string", () => {
+		expect(computeSimHash(article)).toMatch(/^[0-9a-f]{16}$/);
+	});
+
+	it("should return the same fingerprint for the same content", () => {
+		expect(computeSimHash(article)).toBe(computeSimHash(article));
+	});
+
+	it("should ignore case and punctuation", () => {
+		expect(computeSimHash("Hello, World! This is a test.")).toBe(
+			computeSimHash("hello world this is a test"),
+		);
+	});
+
+	it("should keep small edits within a small distance", () => {
+		const edited = `${article.replace("Paragraph 3 ", "Section 3 ")}\n\nLast updated: 2025-01-01`;
+		expect(hammingDistance(computeSimHash(article), computeSimHash(edited))).toBeLessThanOrEqual(3);
+	});
+
+	it("should put unrelated content far apart", () => {
+		const other = Array.from(
+			{ length: 40 },
+			(_, i) => `Recipe step ${i}: whisk ${i} eggs with flour and bake until golden.`,
+		).join("\n\n");
+		expect(hammingDistance(computeSimHash(article), computeSimHash(other))).toBeGreaterThan(10);
+	});
+
+	it("should fingerprint Japanese text character by character", () => {
+		const text = "クローラーはページを取得してマークダウンに変換します。".repeat(5);
+		const edited = `${text}最終更新日`;
+		expect(hammingDistance(computeSimHash(text), computeSimHash(edited))).toBeLessThanOrEqual(8);
+		expect(computeSimHash(text)).not.toBe("0000000000000000");
+	});
+});
+
+describe("hammingDistance", () => {
+	it("should count differing bits across both halves", () => {
+		expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+		expect(hammingDistance("8000000000000001", "0000000000000000")).toBe(2);
+		expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+	});
+
+	it("should return Infinity for malformed fingerprints", () => {
+		expect(hammingDistance("xyz", "0000000000000000")).toBe(Number.POSITIVE_INFINITY);
+	});
+});
+
+describe("SimHashIndex", () => {
+	it("should return the nearest item within the distance", () => {
+		const index = new SimHashIndex<string>();
+		index.add("00000000000000ff", "a");
+		index.add("000000000000000f", "b");
+		index.add("invalid", "c");
+
+		expect(index.size).toBe(2);
+		expect(index.findNearest("000000000000001f", 4)).toEqual({ item: "b", distance: 1 });
+		expect(index.findNearest("ffffffffffffffff", 4)).toBeUndefined();
+	});
+
+	it("should prefer the item registered first on ties", () => {
+		const index = new SimHashIndex<string>();
+		index.add("0000000000000001", "first");
+		index.add("0000000000000002", "second");
+
+		expect(index.findNearest("0000000000000000", 1)?.item).toBe("first");
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { collectSitemapUrls, parseSitemap } from "../../src/crawler/sitemap.js";
+import type { Fetcher, FetchResult } from "../../src/types.js";
+
+const urlset = (urls: string[]): string =>
+	`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((url) => `  <url><loc>${url}</loc><lastmod>2025-01-01</lastmod></url>`).join("\n")}
+</urlset>`;
+
+const sitemapIndex = (urls: string[]): string =>
+	`<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((url) => `  <sitemap><loc>${url}</loc></sitemap>`).join("\n")}
+</sitemapindex>`;
+
+/** URLごとの応答を返す Fetcher */
+function createFetcher(responses: Record<string, string | Error>): Fetcher {
+	return {
+		fetch: vi.fn(async (url: string): Promise<FetchResult | null> => {
+			const response = responses[url];
+			if (response instanceof Error) {
+				throw response;
+			}
+			return response === undefined
+				? null
+				: { html: response, finalUrl: url, contentType: "application/xml" };
+		}),
+	};
+}
+
+describe("parseSitemap", () => {
+	it("should extract page URLs from a urlset", () => {
+		const parsed = parseSitemap(urlset(["https://example.com/a", "https://example.com/b"]));
+
+		expect(parsed.urls).toEqual(["https://example.com/a", "https://example.com/b"]);
+		expect(parsed.sitemaps).toEqual([]);
+	});
+
+	it("should extract child sitemaps from a sitemap index", () => {
+		const parsed = parseSitemap(sitemapIndex(["https://example.com/sitemap-docs.xml"]));
+
+		expect(parsed.urls).toEqual([]);
+		expect(parsed.sitemaps).toEqual(["https://example.com/sitemap-docs.xml"]);
+	});
+
+	it("should decode entities and CDATA in loc", () => {
+		const parsed = parseSitemap(
+			urlset([
+				"https://example.com/search?q=a&amp;page=2",
+				"<![CDATA[https://example.com/cdata]]>",
+				"  https://example.com/padded  ",
+			]),
+		);
+
+		expect(parsed.urls).toEqual([
+			"https://example.com/search?q=a&page=2",
+			"https://example.com/cdata",
+			"https://example.com/padded",
+		]);
+	});
+
+	it("should parse XML rendered by the browser XML viewer", () => {
+		const html = `<html><body><div class="pretty-print">
+			<span>&lt;urlset&gt;</span>
+			<div><span>&lt;url&gt;</span><span>&lt;loc&gt;</span>https://example.com/a<span>&lt;/loc&gt;</span></div>
+			<span>&lt;/urlset&gt;</span>
+		</div></body></html>`;
+
+		expect(parseSitemap(html).urls).toEqual(["https://example.com/a"]);
+	});
+
+	it("should return nothing for non-sitemap content", () => {
+		expect(parseSitemap("<html><body>Not Found</body></html>")).toEqual({
+			urls: [],
+			sitemaps: [],
+		});
+	});
+});
+
+describe("collectSitemapUrls", () => {
+	it("should follow sitemap indexes and deduplicate URLs", async () => {
+		const fetcher = createFetcher({
+			"https://example.com/sitemap.xml": sitemapIndex([
+				"https://example.com/sitemap-1.xml",
+				"https://example.com/sitemap-2.xml",
+			]),
+			"https://example.com/sitemap-1.xml": urlset([
+				"https://example.com/a",
+				"https://example.com/b",
+			]),
+			"https://example.com/sitemap-2.xml": urlset([
+				"https://example.com/b",
+				"https://example.com/c",
+			]),
+		});
+
+		const urls = await collectSitemapUrls(fetcher, ["https://example.com/sitemap.xml"]);
+
+		expect(urls).toEqual([
+			"https://example.com/a",
+			"https://example.com/b",
+			"https://example.com/c",
+		]);
+	});
+
+	it("should skip sitemaps that are missing or fail to load", async () => {
+		const fetcher = createFetcher({
+			"https://example.com/broken.xml": new Error("Network error"),
+			"https://example.com/sitemap.xml": urlset(["https://example.com/a"]),
+		});
+		const logDebug = vi.fn();
+
+		const urls = await collectSitemapUrls(
+			fetcher,
+			[
+				"https://example.com/missing.xml",
+				"https://example.com/broken.xml",
+				"https://example.com/sitemap.xml",
+			],
+			logDebug,
+		);
+
+		expect(urls).toEqual(["https://example.com/a"]);
+		expect(logDebug).toHaveBeenCalledWith("Sitemap fetch failed", expect.anything());
+	});
+
+	it("should not load the same sitemap twice", async () => {
+		const fetcher = createFetcher({
+			"https://example.com/sitemap.xml": sitemapIndex(["https://example.com/sitemap.xml"]),
+		});
+
+		await collectSitemapUrls(fetcher, [
+			"https://example.com/sitemap.xml",
+			"https://example.com/sitemap.xml",
+		]);
+
+		expect(fetcher.fetch).toHaveBeenCalledTimes(1);
+	});
+});
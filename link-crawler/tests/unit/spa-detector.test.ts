@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { isJavaScriptShell } from "../../src/crawler/spa-detector.js";
+
+const paragraph =
+	"This guide explains how to install the toolkit, configure your project and deploy it to production.";
+
+describe("isJavaScriptShell", () => {
+	it("should detect a page with almost no text", () => {
+		const html = `<html><head><title>App</title></head><body><div class="loading"></div><script src="/app.js"></script></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(true);
+	});
+
+	it("should detect a lone #root mount point", () => {
+		const html = `<html><body><div id="root"><p>Loading the documentation viewer, please wait a moment...</p></div><script src="/main.js"></script></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(true);
+	});
+
+	it("should detect a lone #__next mount point", () => {
+		const html = `<html><body><div id="__next"><span>Loading application content for the documentation site...</span></div></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(true);
+	});
+
+	it("should detect a noscript enable JavaScript message", () => {
+		const html = `<html><body><noscript>You need to enable JavaScript to run this app.</noscript><header>${paragraph}</header><div id="app"></div></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(true);
+	});
+
+	it("should not count script contents as text", () => {
+		const script = `<script>${"var x = 1;".repeat(100)}</script>`;
+		const html = `<html><body><div id="root"></div>${script}</body></html>`;
+		expect(isJavaScriptShell(html)).toBe(true);
+	});
+
+	it("should not flag a server-rendered page with a mount point", () => {
+		const html = `<html><body><div id="__next"><main><h1>Install</h1><p>${paragraph}</p><p>${paragraph}</p><p>${paragraph}</p></main></div></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(false);
+	});
+
+	it("should not flag a content-rich page with a noscript banner", () => {
+		const html = `<html><body><noscript>Please enable JavaScript for the best experience.</noscript><main>${`<p>${paragraph}</p>`.repeat(6)}</main></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(false);
+	});
+
+	it("should not flag a regular static page", () => {
+		const html = `<html><body><nav>Home</nav><main><h1>Guide</h1><p>${paragraph}</p></main><footer>Footer</footer></body></html>`;
+		expect(isJavaScriptShell(html)).toBe(false);
+	});
+});
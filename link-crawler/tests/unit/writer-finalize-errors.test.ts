@@ -69,9 +69,9 @@ const defaultConfig: CrawlConfig = {
 	maxDepth: 2,
 	maxPages: null,
 	outputDir: testOutputDir,
-	sameDomain: true,
-	includePattern: null,
-	excludePattern: null,
+	scope: "host",
+	includeMatchers: [],
+	excludeMatchers: [],
 	delay: 500,
 	timeout: 30000,
 	spaWait: 2000,
@@ -82,6 +82,40 @@ const defaultConfig: CrawlConfig = {
 	chunks: true,
 	keepSession: false,
 	respectRobots: true,
+	fetcher: "playwright",
+	concurrency: 1,
+	strategy: "bfs",
+	resume: false,
+	sitemap: "off",
+	seeds: ["https://example.com"],
+	urlPolicy: {
+		dropParams: ["utm_*", "gclid", "fbclid"],
+		keepParams: null,
+		sortQuery: false,
+		trailingSlash: "keep",
+		collapseIndex: true,
+		honorCanonical: true,
+	},
+	dedupe: "exact",
+	dedupeDistance: 3,
+	allowedHosts: [],
+	respectMetaRobots: true,
+	retries: 0,
+	breakerThreshold: 0,
+	breakerCooldown: 60000,
+	record: null,
+	replay: null,
+	headers: {},
+	cookies: [],
+	loginScript: null,
+	loginUrl: null,
+	storageState: null,
+	userAgent: null,
+	robotsAgent: "link-crawler",
+	httpProxy: null,
+	httpsProxy: null,
+	noProxy: [],
+	waitFor: null,
 	version: "test-version",
 };
 
@@ -92,6 +126,7 @@ const defaultMetadata: PageMetadata = {
 	author: null,
 	ogTitle: null,
 	ogType: null,
+	robots: null,
 };
 
 /** テスト用モックロガー */